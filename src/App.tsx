@@ -1,11 +1,18 @@
 import React, { useEffect, useState } from 'react';
+import { Navigate, NavLink, Route, Routes, useMatch } from 'react-router-dom';
 import { AlertCircle } from 'lucide-react';
-import { AudioCapture } from './components/AudioCapture';
+import Home from './pages/Home';
+import Library from './pages/Library';
+import Settings from './pages/Settings';
 import { checkBrowserCompatibility, getBrowserInfoString } from './utils/browserDetection';
 
+const navLinkClass = ({ isActive }: { isActive: boolean }) =>
+  `px-3 py-2 rounded text-sm ${isActive ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`;
+
 function App() {
   const [compatibility, setCompatibility] = useState<{ compatible: boolean; message: string } | null>(null);
   const [browserInfo, setBrowserInfo] = useState<string>('');
+  const onRecorderPage = useMatch('/') !== null;
 
   useEffect(() => {
     const compat = checkBrowserCompatibility();
@@ -32,9 +39,27 @@ function App() {
           <p className="text-gray-400 text-sm">
             Browser: {browserInfo}
           </p>
+          <nav className="flex justify-center gap-2 mt-4">
+            <NavLink to="/" end className={navLinkClass}>
+              Recorder
+            </NavLink>
+            <NavLink to="/library" className={navLinkClass}>
+              Library
+            </NavLink>
+            <NavLink to="/settings" className={navLinkClass}>
+              Settings
+            </NavLink>
+          </nav>
         </div>
 
-        {!compatibility.compatible ? (
+        <Routes>
+          <Route path="/" element={null} />
+          <Route path="/library" element={<Library />} />
+          <Route path="/settings" element={<Settings />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
+
+        {onRecorderPage && !compatibility.compatible && (
           <div className="max-w-2xl mx-auto">
             <div className="bg-red-900 border border-red-700 rounded-lg p-6">
               <div className="flex items-center space-x-3 mb-4">
@@ -54,8 +79,13 @@ function App() {
               </div>
             </div>
           </div>
-        ) : (
-          <AudioCapture />
+        )}
+
+        {/* The recorder stays mounted off-route so a running capture survives browsing the library */}
+        {compatibility.compatible && (
+          <div hidden={!onRecorderPage}>
+            <Home />
+          </div>
         )}
       </div>
     </div>
@@ -1,53 +1,237 @@
-import React, { useState } from 'react';
-import { Play, Square, Download, Trash2, Info } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, Square, Download, Trash2, Info, Mic, History, AudioLines, Bookmark, FileAudio } from 'lucide-react';
 import { useAudioCapture } from '../hooks/useAudioCapture';
 import { useAudioAnalysis } from '../hooks/useAudioAnalysis';
-import { useAudioRecording } from '../hooks/useAudioRecording';
+import { useBatchTranscription } from '../hooks/useBatchTranscription';
+import {
+  BIT_RATE_OPTIONS,
+  EXPORT_FORMATS,
+  getFormatInfo,
+  getSupportedFormats,
+  useAudioRecording,
+} from '../hooks/useAudioRecording';
+import { useRecordingPreferences } from '../hooks/useRecordingPreferences';
+import { useTranscriptionSettings } from '../hooks/useTranscriptionSettings';
+import { VOICE_PRE_ROLL_MS, useVoiceActivity } from '../hooks/useVoiceActivity';
 import { AudioVisualizer } from './AudioVisualizer';
+import { MarkerList } from './MarkerList';
+import { RecordingPlayer } from './RecordingPlayer';
 import { SubtitleOverlay } from './SubtitleOverlay';
-import type { CaptureMode } from '../types/audio.types';
+import { transcriptForFile, useTranscriptStore } from '../hooks/useTranscriptStore';
+import {
+  TRANSCRIPTION_PROVIDERS,
+  createTranscriptionProvider,
+  isWebSpeechAvailable,
+} from '../services/transcriptionProviders';
+import { useServerHealth } from '../hooks/useServerHealth';
+import type { TranscriptionOptions } from '../services/transcription';
+import { formatDuration, formatLanguage } from '../utils/format';
+import { TRANSCRIPT_EXPORT_FORMATS } from '../utils/transcriptExport';
+import type {
+  CaptureMode,
+  ExportFormat,
+  RecordingFormat,
+  SegmentationMode,
+  SegmentationSettings,
+  SilenceAction,
+  TranscriptExportFormat,
+  TranscriptionProviderId,
+  TranscriptionTask,
+  VoiceActivationSettings,
+} from '../types/audio.types';
+
+const DEFAULT_VOICE_ACTIVATION: VoiceActivationSettings = {
+  enabled: false,
+  thresholdDb: -45,
+  hangoverMs: 5000,
+  silenceAction: 'compress',
+};
+
+const DEFAULT_SEGMENTATION: SegmentationSettings = {
+  mode: 'pauses',
+  minSegmentSec: 2,
+  maxSegmentSec: 10,
+};
+
+// Fixed-interval live subtitle segments
+const LIVE_SEGMENT_SEC = 5;
+const MIN_SEGMENT_OPTIONS_SEC = [1, 2, 3, 5];
+const MAX_SEGMENT_OPTIONS_SEC = [5, 10, 15, 30];
+// Languages offered for transcription; Whisper knows many more, but these
+// cover most users and the list stays short
+const LANGUAGE_OPTIONS = ['en', 'de', 'es', 'fr', 'it', 'pt', 'nl', 'pl', 'sv', 'tr', 'ru', 'uk', 'ar', 'hi', 'ja', 'ko', 'zh'];
+const TEMPERATURE_OPTIONS = [0, 0.2, 0.4, 0.6, 0.8, 1];
+
+const MARKER_PRESETS = ['Decision', 'Action item', 'Question', 'Follow up'];
+
+const HANGOVER_OPTIONS_MS = [2000, 5000, 10_000, 30_000, 60_000];
+
+// Rolling output limits; 0 keeps everything in one file
+const SPLIT_MINUTE_OPTIONS = [0, 15, 30, 60, 120];
+const SPLIT_MEGABYTE_OPTIONS = [0, 9, 25, 50, 100];
+// Files that can be imported for transcription; some browsers give them no audio/ type
+const AUDIO_FILE_PATTERN = /\.(m4a|mp3|webm|wav)$/i;
 
 export const AudioCapture: React.FC = () => {
-  const { state: captureState, startCapture, stopCapture, getAnalyserNode } = useAudioCapture();
+  const {
+    state: captureState,
+    startCapture,
+    stopCapture,
+    getAnalyserNode,
+    getAudioContext,
+    getMixNode,
+    microphones,
+    setSystemGain,
+    setMicrophoneGain,
+    setRecordingStatus,
+    setPreRoll,
+  } = useAudioCapture();
   const analyserNode = getAnalyserNode();
   const analysisData = useAudioAnalysis(analyserNode);
   const [mode, setMode] = useState<CaptureMode>('system');
-  const [subtitles, setSubtitles] = useState<string[]>([]);
+  const [includeMicrophone, setIncludeMicrophone] = useState(false);
+  const [microphoneDeviceId, setMicrophoneDeviceId] = useState<string>('');
+  const [separateChannels, setSeparateChannels] = useState(false);
+  const transcript = useTranscriptStore((s) => s.entries);
+  const clearTranscript = useTranscriptStore((s) => s.clear);
+  const [segmentation, setSegmentation] = useState<SegmentationSettings>(DEFAULT_SEGMENTATION);
+  // Interim streaming text per speaker ('' when unlabelled)
+  const [interimSubtitles, setInterimSubtitles] = useState<Record<string, string>>({});
   const [showOverlay, setShowOverlay] = useState(true);
   const [overlaySize, setOverlaySize] = useState(22);
+  const [markerLabel, setMarkerLabel] = useState('');
+  const {
+    settings: recordingSettings,
+    setFormat,
+    setBitRate,
+    setSplitMinutes,
+    setSplitMegabytes,
+  } = useRecordingPreferences();
+  const {
+    settings: transcriptionSettings,
+    setProvider,
+    setLanguage,
+    setTask,
+    setPrompt,
+    setTemperature,
+  } = useTranscriptionSettings();
+  const transcriptionProvider = useMemo(
+    () =>
+      createTranscriptionProvider(
+        transcriptionSettings.provider,
+        transcriptionSettings.serverUrls[transcriptionSettings.provider],
+      ),
+    [transcriptionSettings.provider, transcriptionSettings.serverUrls],
+  );
+  const transcriptionOptions = useMemo<TranscriptionOptions>(
+    () => ({
+      language: transcriptionSettings.language === 'auto' ? undefined : transcriptionSettings.language,
+      task: transcriptionSettings.task,
+      prompt: transcriptionSettings.prompt.trim() || undefined,
+      temperature: transcriptionSettings.temperature ?? undefined,
+    }),
+    [
+      transcriptionSettings.language,
+      transcriptionSettings.task,
+      transcriptionSettings.prompt,
+      transcriptionSettings.temperature,
+    ],
+  );
+  const serverHealth = useServerHealth(transcriptionProvider);
+  const serverDown = serverHealth.status === 'offline';
+  const batch = useBatchTranscription({ provider: transcriptionProvider, transcriptionOptions });
+  const batchBusy = batch.state.status === 'decoding' || batch.state.status === 'running';
+  const canTranscribeFiles = !!transcriptionProvider.transcribe && !serverDown && !batchBusy;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const supportedFormats = useMemo(() => getSupportedFormats(), []);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('original');
+  const selectedFormat = supportedFormats.some((f) => f.format === recordingSettings.format)
+    ? recordingSettings.format
+    : supportedFormats[0]?.format;
 
   // Recording and live transcription helpers
   const {
     state: recordingState,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     clearRecording,
     downloadRecording,
+    addMarker,
+    downloadMarkers,
+    downloadTranscript,
+    recoverableSessions,
+    recoverSession,
+    discardSession,
     formatTime,
     formatFileSize,
     estimatedFileSize,
     startLiveSubtitles,
     stopLiveSubtitles,
     liveSubtitlesEnabled,
-  } = useAudioRecording(captureState.stream, {
+    liveTransport,
+    uploadStats,
+    resetFailedUploads,
+  } = useAudioRecording(captureState.mixedStream, {
     streamToServer: false,
-    segmentDurationSec: 5,
-    onTranscription: (r) => {
-      const t = (r?.text || '').replace(/\s+/g, ' ').trim();
-      if (!t) return;
-      setSubtitles((prev) => {
-        const last = prev[prev.length - 1] || '';
-        if (t === last) return prev;
-        const merged = [...prev, t].slice(-200);
-        return merged;
-      });
+    segmentDurationSec: LIVE_SEGMENT_SEC,
+    segmentation,
+    speakerLabels: captureState.channelLabels,
+    audioContext: getAudioContext(),
+    tapNode: getMixNode(),
+    provider: transcriptionProvider,
+    serverReachable: serverHealth.status === 'online',
+    transcriptionOptions,
+    onInterimTranscription: (r) => {
+      const text = (r.text || '').replace(/\s+/g, ' ').trim();
+      setInterimSubtitles((prev) => ({ ...prev, [r.speaker ?? '']: text }));
     },
   });
 
+  const subtitleLines = transcript.map((entry) => (entry.speaker ? `${entry.speaker}: ${entry.text}` : entry.text));
+  // Language the engine last reported hearing
+  const detectedLanguage = [...transcript].reverse().find((entry) => entry.language)?.language;
+  // The transcript on the timeline of the finished file, for its player
+  const fileTranscript = useMemo(
+    () => transcriptForFile(transcript, recordingState.fileOffsetMs ?? 0),
+    [transcript, recordingState.fileOffsetMs],
+  );
+  // One pending hypothesis per speaker, keyed by the speaker
+  const interimEntries = Object.entries(interimSubtitles).filter(([, text]) => text);
+  const interimLines = interimEntries.map(([speaker, text]) => (speaker ? `${speaker}: ${text}` : text));
+
+  useEffect(() => {
+    if (!recordingState.isRecording) {
+      setRecordingStatus('idle');
+    } else {
+      setRecordingStatus(recordingState.isPaused ? 'paused' : 'recording');
+    }
+  }, [recordingState.isRecording, recordingState.isPaused, setRecordingStatus]);
+
   const handleStartCapture = async () => {
-    await startCapture(mode);
+    await startCapture(mode, {
+      enabled: includeMicrophone,
+      deviceId: microphoneDeviceId || undefined,
+      separateChannels,
+    });
   };
 
+  // "M" drops a marker while recording, unless the user is typing somewhere
+  useEffect(() => {
+    if (!recordingState.isRecording) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'm' && event.key !== 'M') return;
+      if (event.ctrlKey || event.metaKey || event.altKey || event.repeat) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      event.preventDefault();
+      addMarker(markerLabel);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [recordingState.isRecording, addMarker, markerLabel]);
+
   const handleStopCapture = () => {
     stopCapture();
     if (recordingState.isRecording) {
@@ -55,10 +239,93 @@ export const AudioCapture: React.FC = () => {
     }
   };
 
-  const handleStartRecording = async () => {
+  const handleStartRecording = useCallback(async () => {
     if (!captureState.isCapturing) return;
     if (!captureState.hasAudioTrack) return; // guard when audio not shared
-    await startRecording();
+    await startRecording(
+      {
+        format: selectedFormat,
+        bitRate: recordingSettings.bitRate,
+        splitMinutes: recordingSettings.splitMinutes,
+        splitMegabytes: recordingSettings.splitMegabytes,
+      },
+      { captureMode: captureState.captureMode ?? mode },
+    );
+  }, [
+    captureState.isCapturing,
+    captureState.hasAudioTrack,
+    captureState.captureMode,
+    startRecording,
+    selectedFormat,
+    recordingSettings.bitRate,
+    recordingSettings.splitMinutes,
+    recordingSettings.splitMegabytes,
+    mode,
+  ]);
+
+  // Voice activation: audio starts (or resumes) the recording, and once the
+  // hangover of silence runs out the recording is stopped or paused. Only
+  // pauses made here are resumed automatically, never a manual one.
+  const [voiceActivation, setVoiceActivation] = useState<VoiceActivationSettings>(DEFAULT_VOICE_ACTIVATION);
+  const voicePausedRef = useRef(false);
+  const voiceActivity = useVoiceActivity(analyserNode, {
+    enabled: voiceActivation.enabled && captureState.isCapturing,
+    thresholdDb: voiceActivation.thresholdDb,
+    hangoverMs: voiceActivation.hangoverMs,
+    onSilence: () => {
+      if (!voiceActivation.enabled || !recordingState.isRecording || recordingState.isPaused) return;
+      if (voiceActivation.silenceAction === 'stop') {
+        stopRecording();
+      } else {
+        voicePausedRef.current = true;
+        pauseRecording();
+      }
+    },
+  });
+
+  useEffect(() => {
+    if (!recordingState.isRecording || !voiceActivation.enabled) {
+      voicePausedRef.current = false;
+    }
+  }, [recordingState.isRecording, voiceActivation.enabled]);
+
+  // Detection needs a moment, so the recording hears the audio a little later
+  // and keeps the start of each utterance
+  useEffect(() => {
+    setPreRoll(voiceActivation.enabled ? VOICE_PRE_ROLL_MS : 0);
+  }, [voiceActivation.enabled, setPreRoll]);
+
+  useEffect(() => {
+    if (!voiceActivation.enabled || !voiceActivity.voiceActive) return;
+    if (!recordingState.isRecording) {
+      void handleStartRecording();
+    } else if (recordingState.isPaused && voicePausedRef.current) {
+      voicePausedRef.current = false;
+      resumeRecording();
+    }
+  }, [
+    voiceActivation.enabled,
+    voiceActivity.voiceActive,
+    recordingState.isRecording,
+    recordingState.isPaused,
+    handleStartRecording,
+    resumeRecording,
+  ]);
+
+  const updateVoiceActivation = (patch: Partial<VoiceActivationSettings>) => {
+    setVoiceActivation((prev) => ({ ...prev, ...patch }));
+  };
+
+  // Keeps min <= max whichever of the two changed
+  const updateSegmentation = (patch: Partial<SegmentationSettings>) => {
+    setSegmentation((prev) => {
+      const next = { ...prev, ...patch };
+      if (next.minSegmentSec > next.maxSegmentSec) {
+        if (patch.maxSegmentSec != null) next.minSegmentSec = next.maxSegmentSec;
+        else next.maxSegmentSec = next.minSegmentSec;
+      }
+      return next;
+    });
   };
 
   const handleStopRecording = () => {
@@ -67,15 +334,51 @@ export const AudioCapture: React.FC = () => {
 
   const handleClearRecording = () => {
     clearRecording();
-    setSubtitles([]);
+    clearTranscript();
   };
 
   const handleDownloadRecording = () => {
-    downloadRecording();
+    void downloadRecording(exportFormat, { bitRate: recordingSettings.bitRate });
+  };
+
+  // A file's transcript replaces whatever the transcript view holds
+  const startBatchTranscription = (blob: Blob, name: string, offsetMs?: number) => {
+    if (!canTranscribeFiles) return;
+    if (transcript.length > 0 && !window.confirm(`Replace the current transcript with one of ${name}?`)) return;
+    clearTranscript();
+    setInterimSubtitles({});
+    void batch.transcribeFile(blob, { name, offsetMs });
+  };
+
+  const handleTranscribeRecording = async () => {
+    if (!recordingState.downloadUrl) return;
+    try {
+      const blob = await (await fetch(recordingState.downloadUrl)).blob();
+      startBatchTranscription(blob, 'the recording', recordingState.fileOffsetMs ?? 0);
+    } catch (err) {
+      console.warn('Unable to read the recording for transcription', err);
+    }
+  };
+
+  const handleTranscribeFile = (file: File | undefined) => {
+    if (!file) return;
+    // Anything else dropped on the page is ignored
+    if (!file.type.startsWith('audio/') && !AUDIO_FILE_PATTERN.test(file.name)) return;
+    startBatchTranscription(file, file.name);
   };
 
   return (
-    <div className="max-w-4xl mx-auto p-6 space-y-6">
+    <div
+      className="max-w-4xl mx-auto p-6 space-y-6"
+      onDragOver={(e) => {
+        if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        if (e.dataTransfer.files.length === 0) return;
+        e.preventDefault();
+        handleTranscribeFile(e.dataTransfer.files[0]);
+      }}
+    >
       <div className="bg-gray-800 rounded-lg p-6">
         <div className="flex items-center justify-between mb-6">
           <div>
@@ -114,10 +417,255 @@ export const AudioCapture: React.FC = () => {
           </button>
 
           <div className="flex items-center space-x-2 ml-auto">
-            <span className="text-sm text-gray-300">Live TTS chunks upload as WAV (16 kHz mono)</span>
+            <span
+              className="text-sm text-gray-300"
+              title="An AudioWorklet taps the capture mix and resamples it to 16 kHz, one channel per speaker"
+            >
+              {transcriptionProvider.openStream
+                ? 'Live TTS streams 16 kHz PCM from the capture (WAV uploads as fallback)'
+                : transcriptionProvider.transcribe
+                  ? 'Live TTS uploads 16 kHz WAV segments from the capture'
+                  : 'Live TTS listens to the microphone in the browser'}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            <input
+              type="checkbox"
+              checked={includeMicrophone}
+              disabled={captureState.isCapturing}
+              onChange={(e) => setIncludeMicrophone(e.target.checked)}
+            />
+            <Mic className="w-4 h-4" />
+            Include microphone
+          </label>
+          {includeMicrophone && (
+            <select
+              value={microphoneDeviceId}
+              disabled={captureState.isCapturing}
+              onChange={(e) => setMicrophoneDeviceId(e.target.value)}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+            >
+              <option value="">Default microphone</option>
+              {microphones.map((device) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {includeMicrophone && (
+            <label className="flex items-center gap-2 text-sm text-gray-200">
+              <input
+                type="checkbox"
+                checked={separateChannels}
+                disabled={captureState.isCapturing}
+                onChange={(e) => setSeparateChannels(e.target.checked)}
+              />
+              Separate channels (Me left / Remote right, labelled transcript)
+            </label>
+          )}
+        </div>
+
+        {captureState.isCapturing && (
+          <div className="flex flex-wrap items-center gap-6 mb-4">
+            <label className="flex items-center gap-2 text-sm text-gray-200">
+              {mode === 'system' ? 'System' : 'Tab'} volume
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.05}
+                value={captureState.systemGain}
+                onChange={(e) => setSystemGain(parseFloat(e.target.value))}
+              />
+              <span className="font-mono w-10 text-right">{Math.round(captureState.systemGain * 100)}%</span>
+            </label>
+            {captureState.hasMicrophone && (
+              <label className="flex items-center gap-2 text-sm text-gray-200">
+                Microphone volume
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  value={captureState.microphoneGain}
+                  onChange={(e) => setMicrophoneGain(parseFloat(e.target.value))}
+                />
+                <span className="font-mono w-10 text-right">{Math.round(captureState.microphoneGain * 100)}%</span>
+              </label>
+            )}
           </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            Format
+            <select
+              value={selectedFormat || ''}
+              disabled={recordingState.isRecording || supportedFormats.length === 0}
+              onChange={(e) => setFormat(e.target.value as RecordingFormat)}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+            >
+              {supportedFormats.length === 0 && <option value="">Browser default</option>}
+              {supportedFormats.map((f) => (
+                <option key={f.format} value={f.format} title={f.description}>
+                  {f.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            Bitrate
+            <select
+              value={recordingSettings.bitRate}
+              disabled={recordingState.isRecording}
+              onChange={(e) => setBitRate(parseInt(e.target.value, 10))}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+            >
+              {BIT_RATE_OPTIONS.map((rate) => (
+                <option key={rate} value={rate}>
+                  {rate / 1000} kbps
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            New file every
+            <select
+              value={recordingSettings.splitMinutes || 0}
+              disabled={recordingState.isRecording}
+              onChange={(e) => setSplitMinutes(parseInt(e.target.value, 10))}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+            >
+              {SPLIT_MINUTE_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? 'never' : `${minutes} min`}
+                </option>
+              ))}
+            </select>
+            or
+            <select
+              value={recordingSettings.splitMegabytes || 0}
+              disabled={recordingState.isRecording}
+              onChange={(e) => setSplitMegabytes(parseInt(e.target.value, 10))}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+            >
+              {SPLIT_MEGABYTE_OPTIONS.map((megabytes) => (
+                <option key={megabytes} value={megabytes}>
+                  {megabytes === 0 ? 'any size' : `${megabytes} MB`}
+                </option>
+              ))}
+            </select>
+          </label>
+          {selectedFormat && (
+            <span className="text-xs text-gray-400">{getFormatInfo(selectedFormat)?.description}</span>
+          )}
         </div>
 
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            <input
+              type="checkbox"
+              checked={voiceActivation.enabled}
+              onChange={(e) => updateVoiceActivation({ enabled: e.target.checked })}
+            />
+            <AudioLines className="w-4 h-4" />
+            Voice-activated recording
+          </label>
+          {voiceActivation.enabled && (
+            <>
+              <label className="flex items-center gap-2 text-sm text-gray-200">
+                Threshold
+                <input
+                  type="range"
+                  min={-70}
+                  max={-10}
+                  step={1}
+                  value={voiceActivation.thresholdDb}
+                  onChange={(e) => updateVoiceActivation({ thresholdDb: parseInt(e.target.value, 10) })}
+                />
+                <span className="font-mono w-16 text-right">{voiceActivation.thresholdDb} dB</span>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-200">
+                Hangover
+                <select
+                  value={voiceActivation.hangoverMs}
+                  onChange={(e) => updateVoiceActivation({ hangoverMs: parseInt(e.target.value, 10) })}
+                  className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+                >
+                  {HANGOVER_OPTIONS_MS.map((ms) => (
+                    <option key={ms} value={ms}>
+                      {ms / 1000} s
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-200">
+                On silence
+                <select
+                  value={voiceActivation.silenceAction}
+                  onChange={(e) => updateVoiceActivation({ silenceAction: e.target.value as SilenceAction })}
+                  className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+                >
+                  <option value="compress">Skip silence (one file)</option>
+                  <option value="stop">Stop recording</option>
+                </select>
+              </label>
+              {captureState.isCapturing && (
+                <span className="flex items-center gap-2 text-xs text-gray-400">
+                  <span
+                    className={`w-2 h-2 rounded-full ${voiceActivity.voiceActive ? 'bg-green-500' : 'bg-gray-500'}`}
+                  />
+                  {voiceActivity.voiceActive ? 'Audio detected' : 'Waiting for audio'}
+                  <span className="font-mono">({Math.round(voiceActivity.levelDb)} dB)</span>
+                </span>
+              )}
+            </>
+          )}
+        </div>
+
+        {recoverableSessions.length > 0 && (
+          <div className="bg-yellow-900 border border-yellow-700 rounded-lg p-4 mb-6">
+            <div className="flex items-center space-x-2 mb-2">
+              <History className="w-5 h-5 text-yellow-400" />
+              <p className="text-yellow-200 font-medium">Interrupted recordings found</p>
+            </div>
+            <p className="text-yellow-300 text-sm mb-3">
+              These recordings were cut off by a closed or crashed tab. Recovered recordings also appear in the library.
+              {(recordingState.isRecording || recordingState.downloadUrl) && ' Clear the current recording to recover one.'}
+            </p>
+            <div className="space-y-2">
+              {recoverableSessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between">
+                  <span className="text-yellow-100 text-sm">
+                    {new Date(session.startedAt).toLocaleString()} | {formatTime(session.durationMs / 1000)} |{' '}
+                    {formatFileSize(session.byteLength)}
+                    {session.status === 'recording' && ' | interrupted'}
+                  </span>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => void recoverSession(session.id)}
+                      disabled={recordingState.isRecording || !!recordingState.downloadUrl}
+                      className="bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-1 rounded text-sm transition-colors"
+                    >
+                      Recover
+                    </button>
+                    <button
+                      onClick={() => void discardSession(session.id)}
+                      className="bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded text-sm transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {captureState.error && (
           <div className="bg-red-900 border border-red-700 rounded-lg p-4 mb-6">
             <div className="flex items-center space-x-2">
@@ -179,19 +727,39 @@ export const AudioCapture: React.FC = () => {
                   <span>Start Recording</span>
                 </button>
               ) : (
-                <button
-                  onClick={handleStopRecording}
-                  className="flex items-center space-x-2 bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg transition-colors"
-                >
-                  <Square className="w-4 h-4" />
-                  <span>Stop Recording</span>
-                </button>
+                <>
+                  {!recordingState.isPaused ? (
+                    <button
+                      onClick={pauseRecording}
+                      className="flex items-center space-x-2 bg-yellow-600 hover:bg-yellow-700 text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                      <Pause className="w-4 h-4" />
+                      <span>Pause</span>
+                    </button>
+                  ) : (
+                    <button
+                      onClick={resumeRecording}
+                      className="flex items-center space-x-2 bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                      <Play className="w-4 h-4" />
+                      <span>Resume</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={handleStopRecording}
+                    className="flex items-center space-x-2 bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg transition-colors"
+                  >
+                    <Square className="w-4 h-4" />
+                    <span>Stop Recording</span>
+                  </button>
+                </>
               )}
 
               {!liveSubtitlesEnabled ? (
                 <button
                   onClick={startLiveSubtitles}
-                  disabled={!captureState.hasAudioTrack}
+                  disabled={!captureState.hasAudioTrack || serverDown}
+                  title={serverDown ? `${transcriptionProvider.label} unreachable at ${transcriptionProvider.serverUrl}` : undefined}
                   className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
                 >
                   <Play className="w-4 h-4" />
@@ -206,6 +774,63 @@ export const AudioCapture: React.FC = () => {
                   <span>Disable Live TTS</span>
                 </button>
               )}
+              {serverHealth.status !== 'none' && (
+                <span
+                  className="flex items-center gap-1 text-xs text-gray-300"
+                  title={`${transcriptionProvider.label} at ${transcriptionProvider.serverUrl}${
+                    serverHealth.error ? `: ${serverHealth.error}` : ''
+                  }`}
+                >
+                  <span
+                    className={`w-2 h-2 rounded-full ${
+                      serverHealth.status === 'online'
+                        ? 'bg-green-400'
+                        : serverHealth.status === 'offline'
+                          ? 'bg-red-500'
+                          : 'bg-yellow-400'
+                    }`}
+                  />
+                  {serverHealth.status === 'online'
+                    ? `Server ${serverHealth.latencyMs} ms`
+                    : serverHealth.status === 'offline'
+                      ? 'Server unreachable'
+                      : 'Checking server…'}
+                </span>
+              )}
+              {liveTransport && (
+                <span
+                  className="text-xs text-purple-200"
+                  title={
+                    liveTransport === 'stream'
+                      ? 'Audio streams to the engine with interim results'
+                      : 'No streaming endpoint (the bundled Whisper server has none), sending WAV segments over HTTP'
+                  }
+                >
+                  {liveTransport === 'stream' ? 'Streaming' : 'HTTP segments'}
+                </span>
+              )}
+              {uploadStats.backlog > 0 && (
+                <span
+                  className={`text-xs ${uploadStats.offline ? 'text-yellow-200' : 'text-purple-200'}`}
+                  title={
+                    uploadStats.offline
+                      ? 'Transcription server unreachable; segments are kept and sent in order once it is back'
+                      : 'Segments uploading or waiting to upload'
+                  }
+                >
+                  {uploadStats.offline ? 'Offline, ' : ''}
+                  {uploadStats.backlog} queued
+                </span>
+              )}
+              {uploadStats.failed > 0 && (
+                <button
+                  onClick={resetFailedUploads}
+                  title="Segments that could not be transcribed after retrying. Click to dismiss."
+                  className="text-xs text-red-200 bg-red-900 border border-red-700 rounded px-2 py-0.5"
+                >
+                  {uploadStats.failed} failed
+                </button>
+              )}
 
               {!captureState.hasAudioTrack && (
                 <div className="text-xs text-yellow-200 bg-yellow-900 border border-yellow-700 rounded px-2 py-1">
@@ -220,16 +845,58 @@ export const AudioCapture: React.FC = () => {
           <div className="bg-green-900 border border-green-700 rounded-lg p-4 mb-6">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
-                <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
-                <span className="text-green-200 font-medium">Recording</span>
+                {captureState.recordingStatus === 'paused' ? (
+                  <>
+                    <div className="w-3 h-3 bg-yellow-500 rounded-full" />
+                    <span className="text-yellow-200 font-medium">Paused</span>
+                  </>
+                ) : (
+                  <>
+                    <div className="w-3 h-3 bg-red-500 rounded-full animate-pulse" />
+                    <span className="text-green-200 font-medium">Recording</span>
+                  </>
+                )}
               </div>
               <div className="text-green-300 font-mono text-lg">
+                {recordingState.partNumber && (
+                  <span className="text-sm text-green-200 mr-2">Part {recordingState.partNumber}</span>
+                )}
                 {formatTime(recordingState.recordingTime)}
               </div>
             </div>
             <div className="text-xs text-green-200 mt-2">
               Est. size at current bitrate: {estimatedFileSize(recordingState.recordingTime, recordingState.activeBitRate ?? 128000)}
             </div>
+            <div className="flex flex-wrap items-center gap-2 mt-3">
+              <input
+                value={markerLabel}
+                onChange={(e) => setMarkerLabel(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') addMarker(markerLabel);
+                }}
+                list="marker-presets"
+                placeholder="Marker name"
+                className="bg-green-950 text-green-100 border border-green-700 rounded px-2 py-1 text-sm"
+              />
+              <datalist id="marker-presets">
+                {MARKER_PRESETS.map((preset) => (
+                  <option key={preset} value={preset} />
+                ))}
+              </datalist>
+              <button
+                onClick={() => addMarker(markerLabel)}
+                className="flex items-center space-x-2 bg-green-700 hover:bg-green-600 text-white px-3 py-1 rounded text-sm transition-colors"
+              >
+                <Bookmark className="w-4 h-4" />
+                <span>Add marker</span>
+              </button>
+              <span className="text-xs text-green-200">or press M</span>
+            </div>
+            {recordingState.activeFormat && recordingState.activeFormat !== selectedFormat && (
+              <div className="text-xs text-yellow-200 mt-1">
+                {getFormatInfo(selectedFormat!)?.label} could not be used, recording as {getFormatInfo(recordingState.activeFormat)?.label} instead.
+              </div>
+            )}
           </div>
         )}
 
@@ -244,14 +911,45 @@ export const AudioCapture: React.FC = () => {
                 <p className="text-blue-300 text-xs">
                   Type: {recordingState.downloadMimeType || 'unknown'} | File: .{recordingState.fileExtension || 'webm'}
                 </p>
+                {recordingState.partNumber != null && recordingState.partNumber > 1 && (
+                  <p className="text-blue-300 text-xs">
+                    This is part {recordingState.partNumber}; earlier parts are saved in the Library.
+                  </p>
+                )}
               </div>
               <div className="flex space-x-2">
+                <select
+                  value={exportFormat}
+                  disabled={recordingState.exportProgress != null}
+                  onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                  className="bg-blue-800 text-blue-100 border border-blue-600 rounded px-2 py-1 text-sm"
+                >
+                  {EXPORT_FORMATS.map((f) => (
+                    <option key={f.format} value={f.format}>
+                      {f.format === 'original' ? `${f.label} (.${recordingState.fileExtension || 'webm'})` : f.label}
+                    </option>
+                  ))}
+                </select>
                 <button
                   onClick={handleDownloadRecording}
-                  className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded transition-colors"
+                  disabled={recordingState.exportProgress != null}
+                  className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded transition-colors"
                 >
                   <Download className="w-4 h-4" />
-                  <span>Download</span>
+                  <span>
+                    {recordingState.exportProgress != null
+                      ? `Encoding ${Math.round(recordingState.exportProgress * 100)}%`
+                      : 'Download'}
+                  </span>
+                </button>
+                <button
+                  onClick={() => void handleTranscribeRecording()}
+                  disabled={!canTranscribeFiles || recordingState.isRecording}
+                  title="Transcribe the whole recording with the selected engine"
+                  className="flex items-center space-x-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-2 rounded transition-colors"
+                >
+                  <FileAudio className="w-4 h-4" />
+                  <span>Transcribe</span>
                 </button>
                 <button
                   onClick={handleClearRecording}
@@ -265,22 +963,174 @@ export const AudioCapture: React.FC = () => {
           </div>
         )}
 
-        {subtitles.length > 0 && (
-          <div className="bg-gray-700 border border-gray-600 rounded-lg p-4 mb-6">
-            <div className="flex items-center justify-between mb-2">
-              <p className="text-white font-medium">Live Transcript</p>
-              <button
-                onClick={() => setSubtitles([])}
-                className="text-sm bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded"
-              >
-                Clear
-              </button>
+        {recordingState.downloadUrl && !recordingState.isRecording && (
+          <div className="mb-6">
+            <RecordingPlayer src={recordingState.downloadUrl} transcript={fileTranscript} markers={recordingState.markers} />
+          </div>
+        )}
+
+        {(transcript.length > 0 || interimLines.length > 0 || recordingState.markers.length > 0) && (
+          <div className="flex flex-col md:flex-row gap-4 mb-6">
+            {(transcript.length > 0 || interimLines.length > 0) && (
+              <div className="flex-1 bg-gray-700 border border-gray-600 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-white font-medium">
+                    Live Transcript
+                    {detectedLanguage && (
+                      <span className="ml-2 text-xs font-normal text-gray-300">
+                        Detected: {formatLanguage(detectedLanguage)}
+                      </span>
+                    )}
+                  </p>
+                  <div className="flex gap-2">
+                    <select
+                      value=""
+                      disabled={transcript.length === 0}
+                      onChange={(e) => downloadTranscript(e.target.value as TranscriptExportFormat)}
+                      title="Named after the recording, so the files stay paired"
+                      className="bg-gray-600 text-white border border-gray-500 rounded px-2 py-1 text-sm"
+                    >
+                      <option value="" disabled>
+                        Export…
+                      </option>
+                      {TRANSCRIPT_EXPORT_FORMATS.map((f) => (
+                        <option key={f.format} value={f.format}>
+                          {f.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={clearTranscript}
+                      className="text-sm bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                </div>
+                <div className="text-gray-200 text-sm space-y-2 max-h-48 overflow-auto">
+                  {transcript.map((entry, idx) => (
+                    <p key={entry.id}>
+                      {entry.startMs != null && (
+                        <span className="mr-2 text-xs text-gray-400 tabular-nums">
+                          {formatDuration(entry.startMs / 1000)}
+                        </span>
+                      )}
+                      {subtitleLines[idx]}
+                    </p>
+                  ))}
+                  {interimEntries.map(([speaker], idx) => (
+                    <p key={`interim-${speaker}`} className="italic text-gray-400">
+                      {interimLines[idx]}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+            {recordingState.markers.length > 0 && (
+              <div className="md:w-72 bg-gray-700 border border-gray-600 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-white font-medium">Markers</p>
+                  {recordingState.downloadUrl && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => downloadMarkers('vtt')}
+                        title="WebVTT chapters"
+                        className="text-sm bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded"
+                      >
+                        .vtt
+                      </button>
+                      <button
+                        onClick={() => downloadMarkers('json')}
+                        title="JSON sidecar"
+                        className="text-sm bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded"
+                      >
+                        .json
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="max-h-48 overflow-auto">
+                  <MarkerList markers={recordingState.markers} />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!canTranscribeFiles}
+            title={
+              transcriptionProvider.transcribe ? undefined : `${transcriptionProvider.label} only transcribes live audio`
+            }
+            className="flex items-center space-x-2 bg-gray-600 hover:bg-gray-500 disabled:opacity-60 disabled:cursor-not-allowed text-white px-3 py-1 rounded text-sm"
+          >
+            <FileAudio className="w-4 h-4" />
+            <span>Transcribe a file…</span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,.m4a,.mp3,.webm,.wav"
+            className="hidden"
+            onChange={(e) => {
+              handleTranscribeFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <span className="text-xs text-gray-400">or drop an m4a, mp3, webm or wav file onto the page</span>
+        </div>
+
+        {batch.state.status !== 'idle' && (
+          <div className="bg-gray-700 border border-gray-600 rounded-lg p-4 mb-6 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-white text-sm font-medium truncate">Transcribing {batch.state.name}</p>
+              <div className="flex gap-2">
+                {batchBusy ? (
+                  <button
+                    onClick={batch.cancel}
+                    className="text-sm bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded"
+                  >
+                    Cancel
+                  </button>
+                ) : (
+                  <>
+                    {(batch.state.status === 'paused' || (batch.state.status === 'error' && batch.state.total > 0)) && (
+                      <button
+                        onClick={batch.resume}
+                        disabled={serverDown}
+                        className="text-sm bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 text-white px-2 py-1 rounded"
+                      >
+                        Resume
+                      </button>
+                    )}
+                    <button
+                      onClick={batch.dismiss}
+                      className="text-sm bg-gray-600 hover:bg-gray-500 text-white px-2 py-1 rounded"
+                    >
+                      Dismiss
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
-            <div className="text-gray-200 text-sm space-y-2 max-h-48 overflow-auto">
-              {subtitles.map((line, idx) => (
-                <p key={idx}>{line}</p>
-              ))}
+            <div className="h-2 bg-gray-600 rounded overflow-hidden">
+              <div
+                className="h-full bg-purple-500 transition-all"
+                style={{ width: `${batch.state.total > 0 ? (batch.state.done / batch.state.total) * 100 : 0}%` }}
+              />
             </div>
+            <p className={`text-xs ${batch.state.status === 'error' ? 'text-red-300' : 'text-gray-300'}`}>
+              {batch.state.status === 'decoding' && 'Decoding…'}
+              {batch.state.status === 'running' &&
+                `${batch.state.done} of ${batch.state.total} chunks${
+                  batch.state.offline ? '; waiting for the server to come back' : ''
+                }`}
+              {batch.state.status === 'paused' && `Paused after ${batch.state.done} of ${batch.state.total} chunks`}
+              {batch.state.status === 'done' && `Done: ${batch.state.total} chunks`}
+              {batch.state.status === 'error' && batch.state.error}
+            </p>
           </div>
         )}
 
@@ -293,6 +1143,123 @@ export const AudioCapture: React.FC = () => {
             />
             Show Subtitles Overlay
           </label>
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            Engine
+            <select
+              value={transcriptionSettings.provider}
+              onChange={(e) => setProvider(e.target.value as TranscriptionProviderId)}
+              disabled={liveSubtitlesEnabled}
+              title="Transcription engine for live subtitles; applies the next time Live TTS starts"
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm disabled:opacity-60"
+            >
+              {TRANSCRIPTION_PROVIDERS.map(({ id, label }) => (
+                <option key={id} value={id} disabled={id === 'web-speech' && !isWebSpeechAvailable()}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            Language
+            <select
+              value={transcriptionSettings.language}
+              onChange={(e) => setLanguage(e.target.value)}
+              disabled={liveSubtitlesEnabled}
+              title="Spoken language; applies the next time Live TTS starts"
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm disabled:opacity-60"
+            >
+              <option value="auto">Detect</option>
+              {LANGUAGE_OPTIONS.map((code) => (
+                <option key={code} value={code}>
+                  {formatLanguage(code)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            Output
+            <select
+              value={transcriptionSettings.task}
+              onChange={(e) => setTask(e.target.value as TranscriptionTask)}
+              disabled={liveSubtitlesEnabled}
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm disabled:opacity-60"
+            >
+              <option value="transcribe">Original language</option>
+              <option value="translate">Translate to English</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            Temperature
+            <select
+              value={transcriptionSettings.temperature ?? ''}
+              onChange={(e) => setTemperature(e.target.value === '' ? null : parseFloat(e.target.value))}
+              disabled={liveSubtitlesEnabled}
+              title="Higher values let the engine guess more freely; Default lets it raise the temperature only when decoding fails"
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm disabled:opacity-60"
+            >
+              <option value="">Default</option>
+              {TEMPERATURE_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            Prompt
+            <input
+              type="text"
+              value={transcriptionSettings.prompt}
+              onChange={(e) => setPrompt(e.target.value)}
+              disabled={liveSubtitlesEnabled}
+              placeholder="Names, terms, topic"
+              title="Sent before the end of the previous segment, so names and terms are spelled consistently"
+              className="w-48 bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm disabled:opacity-60"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-200">
+            Segments
+            <select
+              value={segmentation.mode}
+              onChange={(e) => updateSegmentation({ mode: e.target.value as SegmentationMode })}
+              disabled={liveSubtitlesEnabled}
+              title="How HTTP live subtitles cut audio into uploads; applies the next time Live TTS starts"
+              className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm disabled:opacity-60"
+            >
+              <option value="pauses">End at pauses</option>
+              <option value="fixed">Every {LIVE_SEGMENT_SEC} s</option>
+            </select>
+          </label>
+          {segmentation.mode === 'pauses' && (
+            <label className="flex items-center gap-2 text-sm text-gray-200">
+              Length
+              <select
+                value={segmentation.minSegmentSec}
+                onChange={(e) => updateSegmentation({ minSegmentSec: parseInt(e.target.value, 10) })}
+                disabled={liveSubtitlesEnabled}
+                className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm disabled:opacity-60"
+              >
+                {MIN_SEGMENT_OPTIONS_SEC.map((sec) => (
+                  <option key={sec} value={sec}>
+                    {sec} s
+                  </option>
+                ))}
+              </select>
+              to
+              <select
+                value={segmentation.maxSegmentSec}
+                onChange={(e) => updateSegmentation({ maxSegmentSec: parseInt(e.target.value, 10) })}
+                disabled={liveSubtitlesEnabled}
+                className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm disabled:opacity-60"
+              >
+                {MAX_SEGMENT_OPTIONS_SEC.map((sec) => (
+                  <option key={sec} value={sec}>
+                    {sec} s
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
           <label className="flex items-center gap-2 text-sm text-gray-200">
             Size
             <input
@@ -316,7 +1283,8 @@ export const AudioCapture: React.FC = () => {
       )}
 
       <SubtitleOverlay
-        lines={subtitles}
+        lines={subtitleLines}
+        interim={interimLines}
         visible={showOverlay}
         fontSizePx={overlaySize}
         opacity={0.9}
@@ -330,25 +1298,36 @@ export const AudioCapture: React.FC = () => {
           <div className="space-y-2 text-gray-300 text-sm">
             <p>1. Click "Start Capture"</p>
             <p>2. Select your Entire Screen when prompted</p>
-            <p>3. Check "Share audio" in the dialog</p>
+            <p>3. Check "Share audio" in the dialog (tick "Include microphone" first to add your own voice)</p>
             <p>4. Click "Start Recording" to save audio</p>
             <p>5. Click "Stop Recording" to finish and download</p>
-            <p>6. Optional: Click "Enable Live TTS" to stream text from the local Whisper server.</p>
+            <p>6. Optional: Click "Enable Live TTS" for live subtitles from {transcriptionProvider.label}.</p>
           </div>
         ) : (
           <div className="space-y-2 text-gray-300 text-sm">
             <p>1. Click "Start Capture"</p>
             <p>2. Choose the Teams browser tab in the picker</p>
-            <p>3. Check "Share audio" for the tab</p>
+            <p>3. Check "Share audio" for the tab (tick "Include microphone" first to add your own voice)</p>
             <p>4. Click "Start Recording" to save audio</p>
             <p>5. Click "Stop Recording" to finish and download</p>
-            <p>6. Optional: Click "Enable Live TTS" to stream text from the local Whisper server.</p>
+            <p>6. Optional: Click "Enable Live TTS" for live subtitles from {transcriptionProvider.label}.</p>
           </div>
         )}
         
         <div className="mt-4 p-3 bg-purple-900 border border-purple-700 rounded">
           <p className="text-purple-100 text-sm">
-            Live TTS sends small WAV chunks (5 seconds) to <code>http://localhost:5005/transcribe</code>. Keep the Whisper server running to see subtitles update in real time.
+            {transcriptionProvider.openStream ? (
+              <>
+                Live TTS streams audio to {transcriptionProvider.label} at <code>{transcriptionProvider.serverUrl}</code> and shows interim text in italics until it is final. When no streaming endpoint answers, it sends short WAV segments, cut at pauses in speech or every 5 seconds, to the same server instead.
+              </>
+            ) : transcriptionProvider.serverUrl ? (
+              <>
+                Live TTS sends short WAV segments, cut at pauses in speech or every 5 seconds, to {transcriptionProvider.label} at <code>{transcriptionProvider.serverUrl}</code>.
+              </>
+            ) : (
+              <>Live TTS uses {transcriptionProvider.label}, which listens to the microphone inside the browser.</>
+            )}{' '}
+            Keep the engine running to see subtitles update in real time, or pick another one under <em>Engine</em>.
           </p>
         </div>
         
@@ -0,0 +1,36 @@
+import React from 'react';
+import type { RecordingMarker } from '../types/audio.types';
+import { formatDuration } from '../utils/format';
+
+interface MarkerListProps {
+  markers: RecordingMarker[];
+  // Makes each marker a button, e.g. to seek a player to it
+  onSelect?: (marker: RecordingMarker) => void;
+}
+
+export const MarkerList: React.FC<MarkerListProps> = ({ markers, onSelect }) => {
+  const sorted = [...markers].sort((a, b) => a.timeMs - b.timeMs);
+  return (
+    <ul className="text-sm space-y-1">
+      {sorted.map((marker) => {
+        const content = (
+          <>
+            <span className="font-mono text-gray-400 mr-2">{formatDuration(marker.timeMs / 1000)}</span>
+            <span className="text-gray-200">{marker.label}</span>
+          </>
+        );
+        return (
+          <li key={marker.id}>
+            {onSelect ? (
+              <button onClick={() => onSelect(marker)} className="text-left hover:underline">
+                {content}
+              </button>
+            ) : (
+              content
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
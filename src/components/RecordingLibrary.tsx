@@ -0,0 +1,287 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileText, Pencil, Play, Square, Trash2 } from 'lucide-react';
+import { useRecordingLibrary } from '../hooks/useRecordingLibrary';
+import type { RecordingSession } from '../services/recordingStore';
+import type { CaptureMode, MarkerExportFormat, RecordingMarker } from '../types/audio.types';
+import { buildMarkerSidecar, buildWebVttChapters, embedChapters } from '../utils/chapters';
+import { partSuffix, saveBlob } from '../utils/download';
+import { formatBytes, formatDuration } from '../utils/format';
+import { MarkerList } from './MarkerList';
+
+const CAPTURE_MODE_LABELS: Record<CaptureMode, string> = {
+  system: 'System audio',
+  tab: 'Browser tab',
+};
+
+const defaultName = (recording: RecordingSession) => {
+  const started = new Date(recording.part?.seriesStartedAt ?? recording.startedAt).toLocaleString();
+  return recording.part ? `Recording ${started} (part ${recording.part.partNumber})` : `Recording ${started}`;
+};
+
+// File name without extension. Parts of a split recording share the series
+// start time, so their files sort in order
+const downloadName = (recording: RecordingSession) => {
+  const base = recording.name
+    ? recording.name.replace(/[\\/:*?"<>|]+/g, '-')
+    : `capture-${new Date(recording.part?.seriesStartedAt ?? recording.startedAt).toISOString().replace(/[:.]/g, '-')}`;
+  return `${base}${partSuffix(recording.part?.partNumber)}`;
+};
+
+interface RecordingItemProps {
+  recording: RecordingSession;
+  onRename: (id: string, name: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onLoad: (id: string) => Promise<Blob>;
+}
+
+const RecordingItem: React.FC<RecordingItemProps> = ({ recording, onRename, onDelete, onLoad }) => {
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [draftName, setDraftName] = useState(recording.name || '');
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Seek target for a marker clicked before the player was open
+  const pendingSeekRef = useRef<number | null>(null);
+  const transcript = recording.transcript || [];
+  const markers = recording.markers || [];
+
+  useEffect(() => {
+    return () => {
+      if (playbackUrl) URL.revokeObjectURL(playbackUrl);
+    };
+  }, [playbackUrl]);
+
+  const withBlob = async (handle: (blob: Blob) => void | Promise<void>) => {
+    try {
+      setError(null);
+      await handle(await onLoad(recording.id));
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setError(`Unable to read recording: ${reason}`);
+    }
+  };
+
+  const togglePlayback = () => {
+    if (playbackUrl) {
+      setPlaybackUrl(null);
+      return;
+    }
+    void withBlob((blob) => setPlaybackUrl(URL.createObjectURL(blob)));
+  };
+
+  const seekTo = (marker: RecordingMarker) => {
+    const audio = audioRef.current;
+    if (playbackUrl && audio) {
+      audio.currentTime = marker.timeMs / 1000;
+      void audio.play();
+      return;
+    }
+    pendingSeekRef.current = marker.timeMs / 1000;
+    void withBlob((blob) => setPlaybackUrl(URL.createObjectURL(blob)));
+  };
+
+  const downloadRecording = () =>
+    withBlob(async (blob) => {
+      const withChapters = await embedChapters(blob, markers, recording.durationMs);
+      saveBlob(withChapters, `${downloadName(recording)}.${recording.fileExtension || 'webm'}`);
+    });
+
+  const downloadMarkers = (format: MarkerExportFormat) => {
+    if (format === 'vtt') {
+      const vtt = buildWebVttChapters(markers, recording.durationMs);
+      saveBlob(new Blob([vtt], { type: 'text/vtt' }), `${downloadName(recording)}.chapters.vtt`);
+    } else {
+      const json = buildMarkerSidecar(markers, {
+        durationMs: recording.durationMs,
+        startedAt: recording.startedAt,
+        name: recording.name,
+      });
+      saveBlob(new Blob([json], { type: 'application/json' }), `${downloadName(recording)}.markers.json`);
+    }
+  };
+
+  const commitRename = () => {
+    setEditing(false);
+    if (draftName.trim() !== (recording.name || '')) {
+      void onRename(recording.id, draftName);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete "${recording.name || defaultName(recording)}"? This cannot be undone.`)) {
+      void onDelete(recording.id);
+    }
+  };
+
+  return (
+    <div className="bg-gray-700 border border-gray-600 rounded-lg p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          {editing ? (
+            <input
+              autoFocus
+              value={draftName}
+              placeholder={defaultName(recording)}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') {
+                  setDraftName(recording.name || '');
+                  setEditing(false);
+                }
+              }}
+              className="w-full bg-gray-800 text-white border border-gray-500 rounded px-2 py-1 text-sm"
+            />
+          ) : (
+            <p className="text-white font-medium truncate">{recording.name || defaultName(recording)}</p>
+          )}
+          <p className="text-gray-300 text-sm">
+            {new Date(recording.startedAt).toLocaleString()} | {formatDuration(recording.durationMs / 1000)} |{' '}
+            {formatBytes(recording.byteLength)}
+          </p>
+          <p className="text-gray-400 text-xs">
+            Type: {recording.mimeType || 'unknown'} | Source:{' '}
+            {recording.captureMode ? CAPTURE_MODE_LABELS[recording.captureMode] : 'unknown'}
+            {recording.part &&
+              ` | Part ${recording.part.partNumber}, starts at ${formatDuration(recording.part.startOffsetMs / 1000)}`}
+          </p>
+        </div>
+        <div className="flex space-x-2 shrink-0">
+          <button
+            onClick={togglePlayback}
+            title={playbackUrl ? 'Close player' : 'Play'}
+            className="bg-green-600 hover:bg-green-700 text-white p-2 rounded transition-colors"
+          >
+            {playbackUrl ? <Square className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={() => setEditing(true)}
+            title="Rename"
+            className="bg-gray-600 hover:bg-gray-500 text-white p-2 rounded transition-colors"
+          >
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setShowTranscript((v) => !v)}
+            disabled={transcript.length === 0 && markers.length === 0}
+            title={transcript.length === 0 && markers.length === 0 ? 'No transcript or markers' : 'Transcript and markers'}
+            className="bg-gray-600 hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed text-white p-2 rounded transition-colors"
+          >
+            <FileText className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => void downloadRecording()}
+            title="Download"
+            className="bg-blue-600 hover:bg-blue-700 text-white p-2 rounded transition-colors"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleDelete}
+            title="Delete"
+            className="bg-red-700 hover:bg-red-800 text-white p-2 rounded transition-colors"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-300 text-sm mt-2">{error}</p>}
+
+      {playbackUrl && (
+        <audio
+          ref={audioRef}
+          src={playbackUrl}
+          controls
+          autoPlay
+          onLoadedMetadata={(e) => {
+            if (pendingSeekRef.current != null) {
+              e.currentTarget.currentTime = pendingSeekRef.current;
+              pendingSeekRef.current = null;
+            }
+          }}
+          className="w-full mt-3"
+        />
+      )}
+
+      {showTranscript && (transcript.length > 0 || markers.length > 0) && (
+        <div className="flex flex-col md:flex-row gap-4 mt-3">
+          {transcript.length > 0 && (
+            <div className="flex-1 max-h-60 overflow-y-auto text-gray-200 text-sm space-y-1">
+              {transcript.map((entry, i) => (
+                <p key={i}>
+                  {entry.startMs != null && (
+                    <span className="font-mono text-gray-400 mr-2">{formatDuration(entry.startMs / 1000)}</span>
+                  )}
+                  {entry.speaker ? `${entry.speaker}: ${entry.text}` : entry.text}
+                </p>
+              ))}
+            </div>
+          )}
+          {markers.length > 0 && (
+            <div className="md:w-64 max-h-60 overflow-y-auto">
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-white text-sm font-medium">Markers</p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => downloadMarkers('vtt')}
+                    title="WebVTT chapters"
+                    className="text-xs bg-gray-600 hover:bg-gray-500 text-white px-2 py-0.5 rounded"
+                  >
+                    .vtt
+                  </button>
+                  <button
+                    onClick={() => downloadMarkers('json')}
+                    title="JSON sidecar"
+                    className="text-xs bg-gray-600 hover:bg-gray-500 text-white px-2 py-0.5 rounded"
+                  >
+                    .json
+                  </button>
+                </div>
+              </div>
+              <MarkerList markers={markers} onSelect={seekTo} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const RecordingLibrary: React.FC = () => {
+  const { recordings, loading, error, renameRecording, deleteRecording, loadRecording } = useRecordingLibrary();
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="bg-gray-800 rounded-lg p-6">
+        <h2 className="text-xl font-semibold text-white mb-4">Recording Library</h2>
+
+        {error && (
+          <div className="bg-red-900 border border-red-700 rounded-lg p-4 mb-6">
+            <p className="text-red-300 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-gray-400">Loading recordings...</p>
+        ) : recordings.length === 0 ? (
+          <p className="text-gray-400">No recordings yet. Finished recordings are saved here automatically.</p>
+        ) : (
+          <div className="space-y-3">
+            {recordings.map((recording) => (
+              <RecordingItem
+                key={recording.id}
+                recording={recording}
+                onRename={renameRecording}
+                onDelete={deleteRecording}
+                onLoad={loadRecording}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Pause, Play, ZoomIn, ZoomOut } from 'lucide-react';
+import type { TranscriptEntry } from '../hooks/useTranscriptStore';
+import type { RecordingMarker } from '../types/audio.types';
+import { decodeWaveformPeaks, type WaveformPeaks } from '../utils/audioProcessing';
+import { formatDuration } from '../utils/format';
+
+const WAVEFORM_HEIGHT = 96;
+const MAX_ZOOM = 16;
+// Browsers refuse to draw canvases much wider than this
+const MAX_CANVAS_PX = 32_000;
+
+interface RecordingPlayerProps {
+  src: string;
+  // Times relative to the start of this file
+  transcript: TranscriptEntry[];
+  markers?: RecordingMarker[];
+}
+
+// The entry being spoken at timeMs: the last one started by then, unless it
+// has already ended
+const activeEntryId = (entries: TranscriptEntry[], timeMs: number): string | null => {
+  let active: string | null = null;
+  for (const entry of entries) {
+    if (entry.startMs == null || entry.startMs > timeMs) continue;
+    active = entry.endMs == null || timeMs < entry.endMs ? entry.id : null;
+  }
+  return active;
+};
+
+// Plays a finished recording over its waveform, with the transcript alongside.
+// The line being spoken is highlighted, and clicking the waveform or a line seeks.
+export const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ src, transcript, markers = [] }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [waveform, setWaveform] = useState<WaveformPeaks | null>(null);
+  const [waveformError, setWaveformError] = useState<string | null>(null);
+  const [mediaDurationMs, setMediaDurationMs] = useState(0);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [zoom, setZoom] = useState(1);
+  const [viewportWidth, setViewportWidth] = useState(0);
+  // Set by the zoom buttons; the next layout puts the playhead in the middle
+  const recenterRef = useRef(false);
+
+  // WebM from MediaRecorder often reports no duration; the decoded audio does
+  const durationMs = waveform?.durationMs || mediaDurationMs;
+  const canvasWidth = Math.min(viewportWidth * zoom, MAX_CANVAS_PX / (window.devicePixelRatio || 1));
+  const activeId = activeEntryId(transcript, currentMs);
+  const activeEntry = transcript.find((entry) => entry.id === activeId);
+  const percentOf = (ms: number) => `${durationMs > 0 ? Math.min(100, (ms / durationMs) * 100) : 0}%`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    setWaveformError(null);
+    setCurrentMs(0);
+    fetch(src)
+      .then((res) => res.blob())
+      .then((blob) => decodeWaveformPeaks(blob))
+      .then((decoded) => !cancelled && setWaveform(decoded))
+      .catch((err) => !cancelled && setWaveformError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !waveform || canvasWidth <= 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.floor(canvasWidth);
+    canvas.width = width * ratio;
+    canvas.height = WAVEFORM_HEIGHT * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, WAVEFORM_HEIGHT);
+    context.fillStyle = '#60a5fa';
+    const { peaks } = waveform;
+    const perPixel = peaks.length / width;
+    const middle = WAVEFORM_HEIGHT / 2;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor(x * perPixel);
+      const to = Math.min(peaks.length, Math.max(from + 1, Math.floor((x + 1) * perPixel)));
+      let peak = 0;
+      for (let i = from; i < to; i++) if (peaks[i] > peak) peak = peaks[i];
+      const height = Math.max(1, peak * (middle - 2));
+      context.fillRect(x, middle - height, 1, height * 2);
+    }
+  }, [waveform, canvasWidth]);
+
+  // timeupdate only fires a few times a second; follow frames while playing
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const tick = () => {
+      if (audioRef.current) setCurrentMs(audioRef.current.currentTime * 1000);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  // Pages the waveform along with the playhead, leaving it alone while paused
+  // so it can be scrolled freely
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || !playing || durationMs <= 0) return;
+    const x = (currentMs / durationMs) * canvasWidth;
+    if (x < container.scrollLeft || x > container.scrollLeft + container.clientWidth - 16) {
+      container.scrollLeft = x - container.clientWidth / 4;
+    }
+  }, [currentMs, playing, durationMs, canvasWidth]);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!recenterRef.current || !container || durationMs <= 0) return;
+    recenterRef.current = false;
+    container.scrollLeft = (currentMs / durationMs) * canvasWidth - container.clientWidth / 2;
+  }, [canvasWidth, currentMs, durationMs]);
+
+  const zoomTo = (next: number) => {
+    recenterRef.current = true;
+    setZoom(Math.min(MAX_ZOOM, Math.max(1, next)));
+  };
+
+  useEffect(() => {
+    const list = listRef.current;
+    const line = activeId ? list?.querySelector<HTMLElement>(`[data-entry-id="${activeId}"]`) : null;
+    if (!list || !line) return;
+    if (line.offsetTop < list.scrollTop || line.offsetTop + line.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = line.offsetTop - list.clientHeight / 3;
+    }
+  }, [activeId]);
+
+  const seek = (ms: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const target = Math.max(0, durationMs > 0 ? Math.min(ms, durationMs) : ms);
+    audio.currentTime = target / 1000;
+    setCurrentMs(target);
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) void audio.play().catch((err) => console.warn('Playback failed', err));
+    else audio.pause();
+  };
+
+  const sortedMarkers = useMemo(() => [...markers].sort((a, b) => a.timeMs - b.timeMs), [markers]);
+
+  return (
+    <div className="bg-gray-700 border border-gray-600 rounded-lg p-4 space-y-3">
+      <audio
+        ref={audioRef}
+        src={src}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => setPlaying(false)}
+        onTimeUpdate={(e) => setCurrentMs(e.currentTarget.currentTime * 1000)}
+        onLoadedMetadata={(e) => {
+          const seconds = e.currentTarget.duration;
+          if (Number.isFinite(seconds)) setMediaDurationMs(seconds * 1000);
+        }}
+      />
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={togglePlayback}
+          title={playing ? 'Pause' : 'Play'}
+          className="flex items-center justify-center w-9 h-9 bg-blue-600 hover:bg-blue-700 text-white rounded-full"
+        >
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <span className="text-sm font-mono text-gray-200 tabular-nums">
+          {formatDuration(currentMs / 1000)} / {formatDuration(durationMs / 1000)}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => zoomTo(zoom / 2)}
+            disabled={zoom <= 1}
+            title="Zoom out"
+            className="p-1 text-gray-200 hover:text-white disabled:opacity-40"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="text-xs text-gray-300 w-8 text-center">{zoom}×</span>
+          <button
+            onClick={() => zoomTo(zoom * 2)}
+            disabled={zoom >= MAX_ZOOM}
+            title="Zoom in"
+            className="p-1 text-gray-200 hover:text-white disabled:opacity-40"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="overflow-x-auto bg-gray-900 rounded">
+        {waveform ? (
+          <div
+            className="relative cursor-pointer"
+            style={{ width: `${canvasWidth}px`, height: `${WAVEFORM_HEIGHT}px` }}
+            onClick={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect();
+              seek(((e.clientX - rect.left) / rect.width) * durationMs);
+            }}
+          >
+            <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+            {activeEntry?.startMs != null && (
+              <div
+                className="absolute inset-y-0 bg-blue-400/20 pointer-events-none"
+                style={{
+                  left: percentOf(activeEntry.startMs),
+                  width: `calc(${percentOf((activeEntry.endMs ?? activeEntry.startMs) - activeEntry.startMs)} + 1px)`,
+                }}
+              />
+            )}
+            {sortedMarkers.map((marker) => (
+              <div
+                key={marker.id}
+                title={marker.label}
+                className="absolute inset-y-0 w-px bg-yellow-400"
+                style={{ left: percentOf(marker.timeMs) }}
+              />
+            ))}
+            <div
+              className="absolute inset-y-0 w-px bg-white pointer-events-none"
+              style={{ left: percentOf(currentMs) }}
+            />
+          </div>
+        ) : (
+          <div className="flex items-center justify-center text-sm text-gray-400" style={{ height: WAVEFORM_HEIGHT }}>
+            {waveformError ? `Waveform unavailable: ${waveformError}` : 'Drawing waveform…'}
+          </div>
+        )}
+      </div>
+
+      {transcript.length > 0 && (
+        <div ref={listRef} className="relative max-h-48 overflow-auto text-sm space-y-1">
+          {transcript.map((entry) => {
+            const timed = entry.startMs != null;
+            return (
+              <button
+                key={entry.id}
+                data-entry-id={entry.id}
+                onClick={() => timed && seek(entry.startMs!)}
+                disabled={!timed}
+                className={`block w-full text-left px-2 py-1 rounded ${
+                  entry.id === activeId ? 'bg-blue-900/60 text-white' : 'text-gray-200 hover:bg-gray-600'
+                } disabled:cursor-default disabled:hover:bg-transparent`}
+              >
+                {timed && (
+                  <span className="mr-2 text-xs text-gray-400 tabular-nums">
+                    {formatDuration(entry.startMs! / 1000)}
+                  </span>
+                )}
+                {entry.speaker ? `${entry.speaker}: ${entry.text}` : entry.text}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
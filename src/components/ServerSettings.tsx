@@ -0,0 +1,121 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranscriptionSettings, normalizeServerUrl } from '../hooks/useTranscriptionSettings';
+import { useServerHealth } from '../hooks/useServerHealth';
+import {
+  DEFAULT_SERVER_URLS,
+  TRANSCRIPTION_PROVIDERS,
+  createTranscriptionProvider,
+  isWebSpeechAvailable,
+} from '../services/transcriptionProviders';
+import type { TranscriptionProviderId } from '../types/audio.types';
+
+export const ServerSettings: React.FC = () => {
+  const { settings, setProvider, setServerUrl } = useTranscriptionSettings();
+  const provider = settings.provider;
+  const savedUrl = settings.serverUrls[provider] || '';
+  const defaultUrl = DEFAULT_SERVER_URLS[provider];
+  const [draft, setDraft] = useState(savedUrl);
+  const [invalid, setInvalid] = useState(false);
+
+  // The draft follows the engine picked here or on the recorder
+  useEffect(() => {
+    setDraft(savedUrl);
+    setInvalid(false);
+  }, [provider, savedUrl]);
+
+  const activeProvider = useMemo(() => createTranscriptionProvider(provider, savedUrl), [provider, savedUrl]);
+  const health = useServerHealth(activeProvider);
+
+  const save = () => {
+    if (draft.trim() && !normalizeServerUrl(draft)) {
+      setInvalid(true);
+      return;
+    }
+    setServerUrl(provider, draft);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="bg-gray-800 rounded-lg p-6 space-y-4">
+        <h2 className="text-xl font-semibold text-white">Transcription Server</h2>
+
+        <label className="flex items-center gap-2 text-sm text-gray-200">
+          Engine
+          <select
+            value={provider}
+            onChange={(e) => setProvider(e.target.value as TranscriptionProviderId)}
+            className="bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+          >
+            {TRANSCRIPTION_PROVIDERS.map(({ id, label }) => (
+              <option key={id} value={id} disabled={id === 'web-speech' && !isWebSpeechAvailable()}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {defaultUrl ? (
+          <>
+            <div className="space-y-1">
+              <label htmlFor="server-url" className="block text-sm text-gray-200">
+                Server URL
+              </label>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  id="server-url"
+                  type="url"
+                  value={draft}
+                  placeholder={defaultUrl}
+                  onChange={(e) => {
+                    setDraft(e.target.value);
+                    setInvalid(false);
+                  }}
+                  onKeyDown={(e) => e.key === 'Enter' && save()}
+                  className="flex-1 min-w-[16rem] bg-gray-700 text-gray-200 border border-gray-600 rounded px-2 py-1 text-sm"
+                />
+                <button
+                  onClick={save}
+                  disabled={draft === savedUrl}
+                  className="text-sm bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-3 py-1 rounded"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setServerUrl(provider, '')}
+                  disabled={!savedUrl}
+                  className="text-sm bg-gray-600 hover:bg-gray-500 disabled:opacity-60 disabled:cursor-not-allowed text-white px-3 py-1 rounded"
+                >
+                  Use default
+                </button>
+              </div>
+              {invalid ? (
+                <p className="text-xs text-red-300">Enter an http:// or https:// URL.</p>
+              ) : (
+                <p className="text-xs text-gray-400">
+                  Leave empty for the default, <code>{defaultUrl}</code>. Saved in this browser only.
+                </p>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 text-sm text-gray-200">
+              <span
+                className={`w-2 h-2 rounded-full ${
+                  health.status === 'online'
+                    ? 'bg-green-400'
+                    : health.status === 'offline'
+                      ? 'bg-red-500'
+                      : 'bg-yellow-400'
+                }`}
+              />
+              {health.status === 'online' && `Connected to ${activeProvider.serverUrl} (${health.latencyMs} ms)`}
+              {health.status === 'offline' && `Cannot reach ${activeProvider.serverUrl}: ${health.error}`}
+              {health.status === 'checking' && `Checking ${activeProvider.serverUrl}…`}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-400">This engine runs in the browser; there is no server to configure.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,8 @@ import React from 'react';
 
 interface SubtitleOverlayProps {
   lines: string[];
+  // Streaming hypotheses that may still change; shown after the settled lines
+  interim?: string[];
   visible?: boolean;
   fontSizePx?: number;
   opacity?: number;
@@ -11,14 +13,18 @@ interface SubtitleOverlayProps {
 
 export const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({
   lines,
+  interim = [],
   visible = true,
   fontSizePx = 20,
   opacity = 0.9,
   position = 'bottom',
   maxLines = 3,
 }) => {
-  if (!visible || lines.length === 0) return null;
-  const show = lines.slice(-maxLines);
+  if (!visible || lines.length + interim.length === 0) return null;
+  const show = [
+    ...lines.map((text) => ({ text, settled: true })),
+    ...interim.map((text) => ({ text, settled: false })),
+  ].slice(-maxLines);
   return (
     <div
       className={`fixed left-1/2 -translate-x-1/2 ${position === 'bottom' ? 'bottom-6' : 'top-6'} z-50`}
@@ -33,8 +39,8 @@ export const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({
         }}
       >
         {show.map((l, i) => (
-          <div key={i} className="leading-snug">
-            {l}
+          <div key={i} className={l.settled ? 'leading-snug' : 'leading-snug italic text-gray-300'}>
+            {l.text}
           </div>
         ))}
       </div>
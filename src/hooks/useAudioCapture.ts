@@ -1,22 +1,100 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect } from 'react';
 import { AudioCaptureState, DisplayMediaOptions, CaptureError } from '../types/audio.types';
-import type { CaptureMode } from '../types/audio.types';
+import type { CaptureMode, MicrophoneDevice, MicrophoneOptions } from '../types/audio.types';
+
+const DEFAULT_SYSTEM_GAIN = 1;
+const DEFAULT_MICROPHONE_GAIN = 1;
+const DUAL_CHANNEL_LABELS = ['Me', 'Remote'];
+// Longest pre-roll setPreRoll accepts
+const MAX_PRE_ROLL_S = 1;
+
+const initialState: AudioCaptureState = {
+  isCapturing: false,
+  hasAudioTrack: false,
+  audioLevel: 0,
+  recordingStatus: 'idle',
+  error: null,
+  stream: null,
+  mixedStream: null,
+  captureMode: null,
+  hasMicrophone: false,
+  channelLabels: null,
+  systemGain: DEFAULT_SYSTEM_GAIN,
+  microphoneGain: DEFAULT_MICROPHONE_GAIN,
+};
+
+export const listMicrophones = async (): Promise<MicrophoneDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'audioinput')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Microphone ${index + 1}`,
+    }));
+};
 
 export const useAudioCapture = () => {
-  const [state, setState] = useState<AudioCaptureState>({
-    isCapturing: false,
-    hasAudioTrack: false,
-    audioLevel: 0,
-    recordingStatus: 'idle',
-    error: null,
-    stream: null,
-  });
+  const [state, setState] = useState<AudioCaptureState>(initialState);
+  const [microphones, setMicrophones] = useState<MicrophoneDevice[]>([]);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const audioLevelIntervalRef = useRef<number | null>(null);
+  const displayStreamRef = useRef<MediaStream | null>(null);
+  const microphoneStreamRef = useRef<MediaStream | null>(null);
+  const systemGainNodeRef = useRef<GainNode | null>(null);
+  const microphoneGainNodeRef = useRef<GainNode | null>(null);
+  const mixBusRef = useRef<GainNode | null>(null);
+  const preRollRef = useRef<DelayNode | null>(null);
+  const preRollMsRef = useRef(0);
+  const gainsRef = useRef({ system: DEFAULT_SYSTEM_GAIN, microphone: DEFAULT_MICROPHONE_GAIN });
+
+  const refreshMicrophones = useCallback(async () => {
+    try {
+      setMicrophones(await listMicrophones());
+    } catch (error) {
+      console.warn('Unable to enumerate microphones', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshMicrophones();
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    mediaDevices.addEventListener('devicechange', refreshMicrophones);
+    return () => mediaDevices.removeEventListener('devicechange', refreshMicrophones);
+  }, [refreshMicrophones]);
+
+  const stopCapture = useCallback(() => {
+    if (audioLevelIntervalRef.current) {
+      clearInterval(audioLevelIntervalRef.current);
+      audioLevelIntervalRef.current = null;
+    }
+
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
 
-  const startCapture = useCallback(async (mode: CaptureMode = 'system') => {
+    displayStreamRef.current?.getTracks().forEach(track => track.stop());
+    microphoneStreamRef.current?.getTracks().forEach(track => track.stop());
+    displayStreamRef.current = null;
+    microphoneStreamRef.current = null;
+    analyserRef.current = null;
+    systemGainNodeRef.current = null;
+    microphoneGainNodeRef.current = null;
+    mixBusRef.current = null;
+    preRollRef.current = null;
+
+    setState({
+      ...initialState,
+      systemGain: gainsRef.current.system,
+      microphoneGain: gainsRef.current.microphone,
+    });
+  }, []);
+
+  const startCapture = useCallback(async (mode: CaptureMode = 'system', microphone?: MicrophoneOptions) => {
     try {
       setState(prev => ({ ...prev, error: null }));
 
@@ -70,7 +148,14 @@ export const useAudioCapture = () => {
         latencyHint: 'interactive',
       });
 
+      // Every source runs through its own gain node into one mix bus, so
+      // recorders downstream only ever see a single mixed audio track. The bus
+      // is also where in-graph taps (live subtitles) pick up the same mix.
       const source = audioContext.createMediaStreamSource(stream);
+      const systemGain = audioContext.createGain();
+      systemGain.gain.value = gainsRef.current.system;
+      const mixBus = audioContext.createGain();
+      const mixDestination = audioContext.createMediaStreamDestination();
       const analyser = audioContext.createAnalyser();
 
       analyser.fftSize = 2048;
@@ -78,10 +163,64 @@ export const useAudioCapture = () => {
       analyser.minDecibels = -90;
       analyser.maxDecibels = -10;
 
-      source.connect(analyser);
+      source.connect(systemGain);
+      systemGain.connect(analyser);
+
+      let microphoneGainNode: GainNode | null = null;
+      let microphoneStream: MediaStream | null = null;
+      let microphoneError: string | null = null;
+      if (microphone?.enabled) {
+        try {
+          microphoneStream = await navigator.mediaDevices.getUserMedia({
+            audio: {
+              deviceId: microphone.deviceId ? { exact: microphone.deviceId } : undefined,
+              echoCancellation: true,
+              noiseSuppression: true,
+              autoGainControl: true,
+            },
+          });
+          const microphoneSource = audioContext.createMediaStreamSource(microphoneStream);
+          const microphoneGain = audioContext.createGain();
+          microphoneGain.gain.value = gainsRef.current.microphone;
+          microphoneSource.connect(microphoneGain);
+          microphoneGain.connect(analyser);
+          microphoneGainNode = microphoneGain;
+          // Labels are only exposed once microphone permission has been granted.
+          void refreshMicrophones();
+        } catch (micErr) {
+          const reason = micErr instanceof Error ? micErr.message : String(micErr);
+          microphoneError = `Microphone unavailable, capturing shared audio only: ${reason}`;
+          console.warn('Microphone capture error:', micErr);
+        }
+      }
+
+      // Dual-channel layout keeps the microphone on the left channel and the
+      // shared audio on the right so each speaker can be transcribed apart.
+      const channelLabels = microphoneGainNode && microphone?.separateChannels ? DUAL_CHANNEL_LABELS : null;
+      if (microphoneGainNode && channelLabels) {
+        const merger = audioContext.createChannelMerger(2);
+        microphoneGainNode.connect(merger, 0, 0);
+        systemGain.connect(merger, 0, 1);
+        merger.connect(mixBus);
+      } else {
+        systemGain.connect(mixBus);
+        microphoneGainNode?.connect(mixBus);
+      }
+      // The recorded path runs through a delay, so a recording started when
+      // the analyser hears speech still gets the moment before it
+      const preRoll = audioContext.createDelay(MAX_PRE_ROLL_S);
+      preRoll.delayTime.value = preRollMsRef.current / 1000;
+      mixBus.connect(preRoll);
+      preRoll.connect(mixDestination);
 
       audioContextRef.current = audioContext;
       analyserRef.current = analyser;
+      microphoneGainNodeRef.current = microphoneGainNode;
+      displayStreamRef.current = stream;
+      microphoneStreamRef.current = microphoneStream;
+      systemGainNodeRef.current = systemGain;
+      mixBusRef.current = mixBus;
+      preRollRef.current = preRoll;
 
       const updateAudioLevel = () => {
         const dataArray = new Uint8Array(analyser.frequencyBinCount);
@@ -106,8 +245,14 @@ export const useAudioCapture = () => {
         hasAudioTrack: true,
         audioLevel: 0,
         recordingStatus: 'idle',
-        error: null,
+        error: microphoneError,
         stream,
+        mixedStream: mixDestination.stream,
+        captureMode: mode,
+        hasMicrophone: microphoneStream !== null,
+        channelLabels,
+        systemGain: gainsRef.current.system,
+        microphoneGain: gainsRef.current.microphone,
       });
     } catch (error) {
       let captureError: CaptureError;
@@ -141,41 +286,64 @@ export const useAudioCapture = () => {
       setState(prev => ({ ...prev, error: captureError.message }));
       console.error('Audio capture error:', error);
     }
-  }, []);
+  }, [stopCapture, refreshMicrophones]);
 
-  const stopCapture = useCallback(() => {
-    if (audioLevelIntervalRef.current) {
-      clearInterval(audioLevelIntervalRef.current);
-      audioLevelIntervalRef.current = null;
-    }
-
-    if (audioContextRef.current) {
-      audioContextRef.current.close();
-      audioContextRef.current = null;
+  const setSystemGain = useCallback((value: number) => {
+    gainsRef.current.system = value;
+    const node = systemGainNodeRef.current;
+    if (node) {
+      node.gain.setTargetAtTime(value, node.context.currentTime, 0.02);
     }
+    setState(prev => ({ ...prev, systemGain: value }));
+  }, []);
 
-    if (state.stream) {
-      state.stream.getTracks().forEach(track => track.stop());
+  const setMicrophoneGain = useCallback((value: number) => {
+    gainsRef.current.microphone = value;
+    const node = microphoneGainNodeRef.current;
+    if (node) {
+      node.gain.setTargetAtTime(value, node.context.currentTime, 0.02);
     }
+    setState(prev => ({ ...prev, microphoneGain: value }));
+  }, []);
 
-    setState({
-      isCapturing: false,
-      hasAudioTrack: false,
-      audioLevel: 0,
-      recordingStatus: 'idle',
-      error: null,
-      stream: null,
-    });
-  }, [state.stream]);
+  const setRecordingStatus = useCallback((recordingStatus: AudioCaptureState['recordingStatus']) => {
+    setState(prev => (prev.recordingStatus === recordingStatus ? prev : { ...prev, recordingStatus }));
+  }, []);
 
   const getAnalyserNode = useCallback(() => {
     return analyserRef.current;
   }, []);
 
+  // Context that renders the mixed stream; its clock is the recording timeline
+  const getAudioContext = useCallback(() => {
+    return audioContextRef.current;
+  }, []);
+
+  // Node carrying exactly what gets recorded (stereo Me/Remote when split),
+  // pre-roll included, so taps stay in step with the recording
+  const getMixNode = useCallback(() => {
+    return preRollRef.current;
+  }, []);
+
+  // Delays what gets recorded behind what the analyser sees. Changing it while
+  // recording skips or repeats that much audio, so callers set it up front.
+  const setPreRoll = useCallback((ms: number) => {
+    preRollMsRef.current = Math.min(ms, MAX_PRE_ROLL_S * 1000);
+    if (preRollRef.current) preRollRef.current.delayTime.value = preRollMsRef.current / 1000;
+  }, []);
+
   return {
     state,
     startCapture,
     stopCapture,
     getAnalyserNode,
+    getAudioContext,
+    getMixNode,
+    microphones,
+    refreshMicrophones,
+    setSystemGain,
+    setMicrophoneGain,
+    setRecordingStatus,
+    setPreRoll,
   };
 };
\ No newline at end of file
@@ -1,10 +1,60 @@
-import { useCallback, useRef, useState } from 'react';
-import type { RecordingFormat, RecordingFormatInfo } from '../types/audio.types';
-import { transcribeBlob, type TranscriptionResponse } from '../services/transcription';
-import { ensureWavBlob } from '../utils/audioProcessing';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type {
+  CaptureMode,
+  ExportFormat,
+  MarkerExportFormat,
+  RecordingFormat,
+  RecordingFormatInfo,
+  RecordingMarker,
+  RecordingSettings,
+  SegmentationSettings,
+  TranscriptExportFormat,
+} from '../types/audio.types';
+import {
+  anchorToSession,
+  withSpeaker,
+  type StreamingHypothesis,
+  type TranscriptionOptions,
+  type TranscriptionResponse,
+  type TranscriptionStream,
+} from '../services/transcription';
+import { startPcmTap, type PcmTap } from '../services/pcmTap';
+import { UploadQueue, type UploadQueueStats } from '../services/uploadQueue';
+import { createTranscriptionProvider, type TranscriptionProvider } from '../services/transcriptionProviders';
+import {
+  appendRecordingChunk,
+  appendRecordingMarker,
+  appendRecordingTranscript,
+  createRecordingSession,
+  deleteRecordingSession,
+  finishRecordingSession,
+  listRecordingSessions,
+  loadRecordingBlob,
+  type RecordingSession,
+  type RecordingTranscriptEntry,
+} from '../services/recordingStore';
+import {
+  encodeFlacBlob,
+  encodeMp3Blob,
+  encodeWavBlob,
+  ensureChannelWavBlobs,
+  ensureWavBlob,
+  pcmToChannelWavBlobs,
+} from '../utils/audioProcessing';
+import { captureFileName, saveBlob, saveUrl } from '../utils/download';
+import { fixWebmMetadata } from '../utils/webmFix';
+import { SessionClock } from '../utils/sessionClock';
+import { PcmRingBuffer } from '../utils/pcmRingBuffer';
+import { SpeechDetector } from '../utils/speechDetector';
+import { SpeechSegmenter, type SegmentAction } from '../utils/speechSegmenter';
+import { transcriptForFile, useTranscriptStore, type TranscriptEntry } from './useTranscriptStore';
+import { formatBytes, formatDuration } from '../utils/format';
+import { buildMarkerSidecar, buildWebVttChapters, embedChapters } from '../utils/chapters';
+import { TRANSCRIPT_EXPORT_FORMATS, buildTranscript } from '../utils/transcriptExport';
 
 export interface AudioRecorderState {
   isRecording: boolean;
+  isPaused: boolean;
   recordingTime: number;
   fileSize: number;
   downloadUrl: string | null;
@@ -13,14 +63,68 @@ export interface AudioRecorderState {
   fileExtension?: string | null;
   activeBitRate?: number | null;
   activeMimeType?: string | null;
+  activeFormat?: RecordingFormat | null;
+  // 0..1 while a finished recording is being converted for download
+  exportProgress?: number | null;
+  // Part being recorded or shown when rolling output splits the recording
+  partNumber?: number | null;
+  // Markers of the current file, relative to its start
+  markers: RecordingMarker[];
+  // Length of the finished file; recordingTime covers every part
+  fileDurationMs?: number | null;
+  // When the recording, or the first of its parts, started; names its files
+  startedAt?: number | null;
+  // Where the current file starts on the recording timeline
+  fileOffsetMs?: number | null;
+  // Rate the audio was captured at; conversions decode at it
+  sampleRate?: number | null;
 }
 
+// One MediaRecorder output file. A rolling recording chains several of these.
+// Each keeps its own session and write queue, because the outgoing part still
+// flushes its last chunk after the next part has started.
+interface RecorderPart {
+  recorder: MediaRecorder;
+  mimeType: string | null;
+  number: number;
+  startOffsetMs: number;
+  byteLength: number;
+  sessionId: string | null;
+  session: Promise<string | null>;
+  nextChunkIndex: number;
+  persistQueue: Promise<void>;
+  persistFailed: boolean;
+  // Only holds chunks that could not be written to IndexedDB
+  memoryChunks: Blob[];
+  segmentChunks: Blob[];
+  segmentElapsedMs: number;
+  // Set once stop() has been requested, so the final chunk cannot roll over
+  closing: boolean;
+}
+
+// Live subtitles cut their segments from 16 kHz PCM tapped off the capture
+// graph. The buffer holds far more than one segment so a slow main thread
+// never loses audio; tails shorter than MIN_LIVE_TAIL_MS are not worth a request.
+const LIVE_SAMPLE_RATE = 16000;
+const LIVE_BUFFER_SECONDS = 60;
+const MIN_LIVE_TAIL_MS = 500;
+const DEFAULT_PROVIDER = createTranscriptionProvider('whisper-server');
+// Roughly the last sentence or two of a speaker's transcript, sent as the
+// prompt for their next segment so Whisper carries on where it left off
+const PROMPT_TAIL_CHARS = 200;
+
+const promptTail = (text: string) => {
+  if (text.length <= PROMPT_TAIL_CHARS) return text;
+  const tail = text.slice(-PROMPT_TAIL_CHARS);
+  return tail.slice(tail.indexOf(' ') + 1);
+};
+
 // Formats: MP3 (when available), M4A (AAC), WebM (Opus/generic)
 const AVAILABLE_FORMATS: RecordingFormatInfo[] = [
   {
     format: 'mp3',
     label: 'MP3 (.mp3)',
-    description: 'Common format. Recording support varies by browser.',
+    description: 'Common format. Recording support varies by browser; any recording can be exported as MP3.',
     preferredMimeTypes: ['audio/mpeg'],
     extension: 'mp3',
     defaultBitRate: 128_000,
@@ -78,20 +182,108 @@ export function getFormatInfo(format: RecordingFormat): RecordingFormatInfo | un
   return AVAILABLE_FORMATS.find((f) => f.format === format);
 }
 
+// Download targets for a finished recording; anything but 'original' is converted in the browser
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; extension?: string }[] = [
+  { format: 'original', label: 'As recorded' },
+  { format: 'mp3', label: 'MP3 (.mp3)', extension: 'mp3' },
+  { format: 'wav_16', label: 'WAV 16-bit (.wav)', extension: 'wav' },
+  { format: 'wav_24', label: 'WAV 24-bit (.wav)', extension: 'wav' },
+  { format: 'wav_float', label: 'WAV 32-bit float (.wav)', extension: 'wav' },
+  { format: 'flac_16', label: 'FLAC 16-bit (.flac)', extension: 'flac' },
+  { format: 'flac_24', label: 'FLAC 24-bit (.flac)', extension: 'flac' },
+];
+
+// sampleRate is the rate the recording was captured at, when known
+const convertRecording = (
+  blob: Blob,
+  format: Exclude<ExportFormat, 'original'>,
+  { bitRate, sampleRate }: { bitRate?: number; sampleRate?: number | null },
+  onProgress: (progress: number) => void,
+): Promise<Blob> => {
+  switch (format) {
+    case 'mp3':
+      return encodeMp3Blob(blob, { bitRate, sampleRate, onProgress });
+    case 'wav_16':
+      return encodeWavBlob(blob, { sampleFormat: 'int16', sampleRate });
+    case 'wav_24':
+      return encodeWavBlob(blob, { sampleFormat: 'int24', sampleRate });
+    case 'wav_float':
+      return encodeWavBlob(blob, { sampleFormat: 'float32', sampleRate });
+    case 'flac_16':
+      return encodeFlacBlob(blob, { bitsPerSample: 16, sampleRate, onProgress });
+    case 'flac_24':
+      return encodeFlacBlob(blob, { bitsPerSample: 24, sampleRate, onProgress });
+  }
+};
+
+export const BIT_RATE_OPTIONS = [64_000, 96_000, 128_000, 192_000, 256_000];
+
+// Tried in order after the requested format; the most robust containers come first
+const FALLBACK_FORMATS: RecordingFormat[] = ['webm_opus', 'webm', 'mp4_aac', 'mp3'];
+
+export function resolveRecordingFormat(
+  preferred?: RecordingFormat,
+): { info: RecordingFormatInfo; mimeType: string } | null {
+  const order = preferred ? [preferred, ...FALLBACK_FORMATS.filter((f) => f !== preferred)] : FALLBACK_FORMATS;
+  for (const format of order) {
+    const mimeType = getBestMimeTypeForFormat(format);
+    const info = getFormatInfo(format);
+    if (mimeType && info) return { info, mimeType };
+  }
+  return null;
+}
+
 export function useAudioRecording(
   stream?: MediaStream | null,
-  opts?: { streamToServer?: boolean; segmentDurationSec?: number; onTranscription?: (r: TranscriptionResponse) => void }
+  opts?: {
+    streamToServer?: boolean;
+    segmentDurationSec?: number;
+    // Live subtitle segmentation; fixed segmentDurationSec intervals when absent
+    segmentation?: SegmentationSettings;
+    // One label per channel of `stream`; when set, each channel is transcribed on its own
+    speakerLabels?: string[] | null;
+    onTranscription?: (r: TranscriptionResponse) => void;
+    // Unsettled text from streaming transcription, per speaker; empty text clears it
+    onInterimTranscription?: (r: TranscriptionResponse) => void;
+    // Context rendering `stream`; its clock times the recording and transcripts
+    audioContext?: AudioContext | null;
+    // Node in that context carrying the audio of `stream`; live subtitles tap it
+    tapNode?: AudioNode | null;
+    // Engine for uploads and live streaming; the bundled Whisper server when absent
+    provider?: TranscriptionProvider;
+    // Result of the last health check; queued uploads are retried as soon as it turns true
+    serverReachable?: boolean;
+    // Language, task, prompt and temperature for every request; the prompt is
+    // followed by the end of the speaker's previous segment
+    transcriptionOptions?: TranscriptionOptions;
+  }
 ) {
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+  // Part currently being recorded; stays set after stop until the next start
+  const partRef = useRef<RecorderPart | null>(null);
+  const recordingBlobRef = useRef<Blob | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  // Stored session of the part in progress; transcripts sent while it is set
+  // are attached to that session
+  const activeSessionRef = useRef<{ session: Promise<string | null>; startOffsetMs: number } | null>(null);
+  // Numbers uploads and live results, so transcript entries can name their source
+  const chunkCountRef = useRef(0);
+  // Latest transcript text per speaker ('' without labels), for prompts
+  const promptTailRef = useRef<Record<string, string>>({});
+  // Recording timeline shared by parts, markers and transcript timestamps
+  const clockRef = useRef<SessionClock | null>(null);
   const timerRef = useRef<number | null>(null);
-  const segmentChunksRef = useRef<Blob[]>([]);
-  const segmentElapsedMsRef = useRef<number>(0);
-  const liveRecorderRef = useRef<MediaRecorder | null>(null);
-  const liveLoopActiveRef = useRef<boolean>(false);
+  // Stops the live subtitle tap and sends what it still holds
+  const liveTapRef = useRef<PcmTap | null>(null);
+  const pausedRef = useRef<boolean>(false);
   const [liveSubtitlesEnabled, setLiveSubtitlesEnabled] = useState<boolean>(false);
+  // How live subtitles reach the server: a WebSocket stream, or HTTP segments as the fallback
+  const [liveTransport, setLiveTransport] = useState<'stream' | 'http' | null>(null);
+  // Transcription uploads in flight or waiting, in recording order
+  const uploadQueueRef = useRef<UploadQueue | null>(null);
+  const [uploadStats, setUploadStats] = useState<UploadQueueStats>({ backlog: 0, failed: 0, offline: false });
   const [state, setState] = useState<AudioRecorderState>({
     isRecording: false,
+    isPaused: false,
     recordingTime: 0,
     fileSize: 0,
     downloadUrl: null,
@@ -100,31 +292,203 @@ export function useAudioRecording(
     fileExtension: null,
     activeBitRate: null,
     activeMimeType: null,
+    activeFormat: null,
+    exportProgress: null,
+    partNumber: null,
+    markers: [],
+    fileDurationMs: null,
+    startedAt: null,
+    fileOffsetMs: null,
+    sampleRate: null,
   });
+  // Sessions interrupted by a crash or reload; finished ones live in the library
+  const [recoverableSessions, setRecoverableSessions] = useState<RecordingSession[]>([]);
 
-  const sendChunkToTranscription = useCallback(
-    async (chunk: Blob) => {
-      if (!chunk || chunk.size === 0) return;
-      try {
-        let payload = chunk;
-        if (!chunk.type?.includes('wav')) {
-          try {
-            payload = await ensureWavBlob(chunk);
-          } catch (conversionError) {
-            console.warn('Falling back to raw chunk for transcription', conversionError);
-            payload = chunk;
-          }
+  useEffect(() => {
+    listRecordingSessions()
+      .then((sessions) =>
+        setRecoverableSessions(sessions.filter((s) => s.status === 'recording' && s.id !== sessionIdRef.current)),
+      )
+      .catch((err) => console.warn('Unable to check for unfinished recordings', err));
+  }, []);
+
+  // The tap goes away with the capture graph it was attached to
+  const tapNode = opts?.tapNode;
+  useEffect(() => {
+    if (tapNode || !liveTapRef.current) return;
+    liveTapRef.current.stop();
+    liveTapRef.current = null;
+    setLiveSubtitlesEnabled(false);
+    setLiveTransport(null);
+  }, [tapNode]);
+
+  // Hands finished transcripts to the caller and to the stored session that
+  // was recording when their audio was captured
+  const deliverTranscripts = useCallback(
+    (responses: TranscriptionResponse[], activeSession = activeSessionRef.current) => {
+      const onTranscription = opts?.onTranscription;
+      const added: TranscriptEntry[] = [];
+      responses.forEach((response) => {
+        const text = (response.text || '').replace(/\s+/g, ' ').trim();
+        if (text) promptTailRef.current[response.speaker ?? ''] = promptTail(text);
+        added.push(...useTranscriptStore.getState().addResponse(response));
+        onTranscription?.(response);
+      });
+      if (!activeSession) return;
+      const toFileMs = (ms?: number) => (ms != null ? Math.max(0, Math.round(ms - activeSession.startOffsetMs)) : undefined);
+      // Only what merging adds is stored; words repeated from overlapping
+      // audio are left out
+      const entries: RecordingTranscriptEntry[] = added.map((entry) => ({
+        text: entry.text,
+        speaker: entry.speaker,
+        startMs: toFileMs(entry.startMs),
+        endMs: toFileMs(entry.endMs),
+        language: entry.language,
+        provider: entry.provider,
+      }));
+      if (entries.length === 0) return;
+      void activeSession.session
+        .then((sessionId) => (sessionId ? appendRecordingTranscript(sessionId, entries) : undefined))
+        .catch((err) => console.warn('Unable to save transcript with the recording', err));
+    },
+    [opts?.onTranscription],
+  );
+
+  useEffect(() => {
+    const queue = new UploadQueue({
+      onFailure: (err) => setState((s) => ({ ...s, error: `Upload failed: ${err.message}` })),
+      onChange: setUploadStats,
+    });
+    uploadQueueRef.current = queue;
+    return () => {
+      queue.dispose();
+      uploadQueueRef.current = null;
+    };
+  }, []);
+
+  const serverReachable = opts?.serverReachable;
+  useEffect(() => {
+    if (serverReachable) uploadQueueRef.current?.retryNow();
+  }, [serverReachable]);
+
+  // Queues clips for transcription: one per labelled channel (null for a
+  // silent channel), or a single mono clip. `span` is where the audio sits on
+  // the recording timeline, when known. Clips may still be converting; the
+  // upload's place in the queue is taken right away, so results keep the
+  // recording order. A retry uploads every channel of the clip again.
+  const transcribeClips = useCallback(
+    (clips: (Blob | null)[] | Promise<(Blob | null)[]>, span?: { startMs: number; endMs: number }) => {
+      const provider = opts?.provider ?? DEFAULT_PROVIDER;
+      const transcribe = provider.transcribe;
+      // Live-only engines have nothing to upload to
+      if (!transcribe) return;
+      const chunkId = `upload-${++chunkCountRef.current}`;
+      const activeSession = activeSessionRef.current;
+      const speakerLabels = opts?.speakerLabels;
+      const options = opts?.transcriptionOptions;
+      const anchor = (response: TranscriptionResponse): TranscriptionResponse => ({
+        ...(span ? anchorToSession(response, span) : response),
+        chunkId,
+        provider: provider.id,
+      });
+      uploadQueueRef.current?.enqueue({
+        run: async (signal) => {
+          const ready = await clips;
+          const labelled = ready.length > 1;
+          const responses = await Promise.all(
+            ready.map(async (clip, channel) => {
+              if (!clip) return null;
+              const speaker = labelled ? speakerLabels?.[channel] || `Channel ${channel + 1}` : undefined;
+              // The tail is read when the upload starts, so it is the latest text delivered by then
+              const prompt = [options?.prompt, promptTailRef.current[speaker ?? '']].filter(Boolean).join(' ');
+              const response = await transcribe(clip, { ...options, prompt: prompt || undefined, signal });
+              return anchor(speaker ? withSpeaker(response, speaker) : response);
+            }),
+          );
+          return responses.filter((response): response is TranscriptionResponse => response !== null);
+        },
+        deliver: (received) => deliverTranscripts(received, activeSession),
+      });
+    },
+    [opts?.provider, opts?.speakerLabels, opts?.transcriptionOptions, deliverTranscripts],
+  );
+
+  // Converts a recorded chunk to WAV: one clip per labelled channel, or mono
+  const prepareChunkClips = useCallback(
+    async (chunk: Blob): Promise<(Blob | null)[]> => {
+      const speakerLabels = opts?.speakerLabels;
+      if (speakerLabels && speakerLabels.length > 1) {
+        try {
+          const channelPayloads = await ensureChannelWavBlobs(chunk);
+          if (channelPayloads) return channelPayloads;
+        } catch (conversionError) {
+          console.warn('Falling back to mono transcription, channel split failed', conversionError);
         }
-        const response = await transcribeBlob(payload);
-        if (opts?.onTranscription) opts?.onTranscription(response);
-      } catch (e: any) {
-        setState((s) => ({ ...s, error: `Upload failed: ${e?.message || String(e)}` }));
+      }
+
+      if (chunk.type?.includes('wav')) return [chunk];
+      try {
+        return [await ensureWavBlob(chunk)];
+      } catch (conversionError) {
+        console.warn('Falling back to raw chunk for transcription', conversionError);
+        return [chunk];
       }
     },
-    [opts?.onTranscription],
+    [opts?.speakerLabels],
   );
 
-  const startRecording = useCallback(async () => {
+  // Queues a recorded chunk for transcription. `span` as for transcribeClips.
+  const sendChunkToTranscription = useCallback(
+    (chunk: Blob, span?: { startMs: number; endMs: number }) => {
+      if (!chunk || chunk.size === 0) return;
+      transcribeClips(prepareChunkClips(chunk), span);
+    },
+    [prepareChunkClips, transcribeClips],
+  );
+
+  const startTimer = useCallback(() => {
+    if (timerRef.current) {
+      window.clearInterval(timerRef.current);
+    }
+    // Only refreshes the display; the clock keeps time even when this is throttled
+    timerRef.current = window.setInterval(() => {
+      const elapsedMs = clockRef.current?.elapsedMs() ?? 0;
+      setState((s) => ({ ...s, recordingTime: elapsedMs / 1000 }));
+    }, 250);
+  }, []);
+
+  const stopTimer = useCallback(() => {
+    if (timerRef.current) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  // Writes a part's chunks strictly in order. Once a write fails the rest of the
+  // part stays in memory, and the stored chunks are stitched back in front of it on stop.
+  const persistChunk = useCallback((part: RecorderPart, chunk: Blob) => {
+    const index = part.nextChunkIndex++;
+    part.byteLength += chunk.size;
+    part.persistQueue = part.persistQueue.then(async () => {
+      if (!part.sessionId || part.persistFailed) {
+        part.memoryChunks.push(chunk);
+        return;
+      }
+      try {
+        const recordedMs = clockRef.current?.elapsedMs() ?? 0;
+        await appendRecordingChunk(part.sessionId, index, chunk, recordedMs - part.startOffsetMs);
+      } catch (err) {
+        console.warn('Recording chunk could not be saved, keeping the rest in memory', err);
+        part.persistFailed = true;
+        part.memoryChunks.push(chunk);
+      }
+    });
+  }, []);
+
+  const startRecording = useCallback(async (
+    settings?: Partial<RecordingSettings>,
+    meta?: { captureMode?: CaptureMode },
+  ) => {
     if (!stream) {
       setState((s) => ({ ...s, error: 'No audio stream available to record.' }));
       return;
@@ -137,123 +501,323 @@ export function useAudioRecording(
         setState((s) => ({ ...s, error: 'No audio track present in the capture stream.' }));
         return;
       }
-      const audioOnlyStream = new MediaStream([audioTrack]);
+      const sampleRate = audioTrack.getSettings().sampleRate || opts?.audioContext?.sampleRate || null;
 
-      const targetFormat: RecordingFormat = 'webm_opus';
-      const formatInfo = getFormatInfo(targetFormat)!;
+      const resolved = resolveRecordingFormat(settings?.format);
+      const formatInfo = resolved?.info;
+      const bitRate = settings?.bitRate || formatInfo?.defaultBitRate;
 
-      const mimeType = getBestMimeTypeForFormat(targetFormat);
-      if (!mimeType) {
-        setState((s) => ({ ...s, error: 'WebM Opus recording is not supported in this browser.' }));
-        return;
-      }
+      // As a last resort, omit type and let the browser choose its default container
+      const options: MediaRecorderOptions = resolved
+        ? { mimeType: resolved.mimeType, audioBitsPerSecond: bitRate }
+        : { audioBitsPerSecond: bitRate };
 
-      // As a last resort, omit type
-      const options: MediaRecorderOptions = { mimeType, audioBitsPerSecond: formatInfo?.defaultBitRate };
+      const splitAfterMs = (settings?.splitMinutes || 0) * 60_000;
+      const splitAtBytes = (settings?.splitMegabytes || 0) * 1024 * 1024;
+      const startedAt = Date.now();
+      const series =
+        splitAfterMs > 0 || splitAtBytes > 0 ? { seriesId: crypto.randomUUID(), seriesStartedAt: startedAt } : null;
 
-      const recorder = new MediaRecorder(audioOnlyStream, options);
-      mediaRecorderRef.current = recorder;
-      chunksRef.current = [];
+      pausedRef.current = false;
+      // The previous recording stays in the library; only the handle moves on
+      sessionIdRef.current = null;
+      const clock = new SessionClock(opts?.audioContext);
+      clockRef.current = clock;
 
       const timesliceMs = 250;
       const segmentTargetMs = Math.max(1000, (opts?.segmentDurationSec || 5) * 1000);
       const overlapMs = 1000;
       const overlapCount = Math.ceil(overlapMs / timesliceMs);
 
-      recorder.ondataavailable = (event) => {
-        if (event.data && event.data.size > 0) {
-          const chunk = event.data;
-          chunksRef.current.push(chunk);
-          if (opts?.streamToServer) {
-            segmentChunksRef.current.push(chunk);
-            segmentElapsedMsRef.current += timesliceMs;
-            if (segmentElapsedMsRef.current >= segmentTargetMs) {
-              const segBlob = new Blob(segmentChunksRef.current, { type: mimeType || undefined });
-              const keep = Math.min(segmentChunksRef.current.length, overlapCount);
-              const tail = keep > 0 ? segmentChunksRef.current.slice(-keep) : [];
-              segmentChunksRef.current = tail;
-              segmentElapsedMsRef.current = keep * timesliceMs;
-              void sendChunkToTranscription(segBlob);
-            }
-          }
-        }
+      // Segments end at the current clock position and reach back over their chunks
+      const segmentSpan = (part: RecorderPart) => {
+        const endMs = clock.elapsedMs();
+        return { startMs: Math.max(0, endMs - part.segmentElapsedMs), endMs };
       };
 
-      recorder.onerror = (event: Event) => {
-        const err = (event as any).error;
-        setState((s) => ({ ...s, error: `Recorder error: ${err?.message || 'unknown error'}` }));
-        try {
-          recorder.stop();
-        } catch {}
+      const flushSegment = (part: RecorderPart) => {
+        if (part.segmentChunks.length === 0) return;
+        const segBlob = new Blob(part.segmentChunks, { type: part.mimeType || undefined });
+        const span = segmentSpan(part);
+        part.segmentChunks = [];
+        part.segmentElapsedMs = 0;
+        sendChunkToTranscription(segBlob, span);
+      };
+
+      // Lands on disk under a sequential name when storage failed mid-part,
+      // since only the last part is kept as the current recording
+      const saveUnstoredPart = (part: RecorderPart, blob: Blob) => {
+        const ext = inferExtensionFromMime(blob.type) || formatInfo?.extension || 'webm';
+        saveBlob(blob, `${captureFileName(startedAt, series ? part.number : null)}.${ext}`);
       };
 
-      recorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: mimeType || undefined });
+      const finishPart = async (part: RecorderPart, durationMs: number, isFinal: boolean) => {
+        await part.persistQueue;
+        let stored: Blob | null = null;
+        if (part.sessionId) {
+          try {
+            if (isFinal || part.memoryChunks.length > 0) {
+              stored = await loadRecordingBlob(part.sessionId);
+            }
+            await finishRecordingSession(part.sessionId, durationMs);
+          } catch (err) {
+            console.warn('Unable to read back the stored recording', err);
+            setState((s) => ({
+              ...s,
+              error: 'Part of the recording could not be read back. Reload the page to recover it.',
+            }));
+          }
+        }
+        if (!isFinal && part.memoryChunks.length === 0) return;
+
+        const recorded = new Blob(stored ? [stored, ...part.memoryChunks] : part.memoryChunks, {
+          type: part.mimeType || undefined,
+        });
+        part.memoryChunks = [];
+        // Live WebM has no duration or seek index until it is post-processed
+        const blob = recorded.type.includes('webm') ? await fixWebmMetadata(recorded) : recorded;
+        if (!isFinal) {
+          saveUnstoredPart(part, blob);
+          return;
+        }
+        recordingBlobRef.current = blob;
         const url = URL.createObjectURL(blob);
         const ext = inferExtensionFromMime(blob.type) || formatInfo?.extension || 'webm';
 
         setState((s) => ({
           ...s,
           isRecording: false,
+          isPaused: false,
+          recordingTime: clock.elapsedMs() / 1000,
           downloadUrl: url,
           fileSize: blob.size,
-          downloadMimeType: blob.type || mimeType || null,
+          downloadMimeType: blob.type || part.mimeType || null,
           fileExtension: ext,
           activeBitRate: null,
           activeMimeType: null,
+          activeFormat: null,
+          partNumber: series ? part.number : null,
+          fileDurationMs: durationMs,
         }));
+      };
+
+      const startPart = (number: number, startOffsetMs: number): RecorderPart => {
+        const recorder = new MediaRecorder(new MediaStream([audioTrack]), options);
+        const mimeType = resolved?.mimeType || recorder.mimeType || null;
+        const part: RecorderPart = {
+          recorder,
+          mimeType,
+          number,
+          startOffsetMs,
+          byteLength: 0,
+          sessionId: null,
+          session: Promise.resolve(null),
+          nextChunkIndex: 0,
+          persistQueue: Promise.resolve(),
+          persistFailed: false,
+          memoryChunks: [],
+          segmentChunks: [],
+          segmentElapsedMs: 0,
+          closing: false,
+        };
+        part.session = createRecordingSession({
+          mimeType,
+          fileExtension: inferExtensionFromMime(mimeType || '') || formatInfo?.extension || 'webm',
+          captureMode: meta?.captureMode ?? null,
+          part: series ? { ...series, partNumber: number, startOffsetMs } : null,
+          sampleRate,
+        })
+          .then((session) => {
+            part.sessionId = session.id;
+            if (partRef.current === part) sessionIdRef.current = session.id;
+            return session.id;
+          })
+          .catch((err) => {
+            console.warn('Recording will only be kept in memory', err);
+            part.persistFailed = true;
+            return null;
+          });
+        part.persistQueue = part.session.then(() => undefined);
+
+        recorder.ondataavailable = (event) => {
+          if (!event.data || event.data.size === 0) return;
+          const chunk = event.data;
+          persistChunk(part, chunk);
+          if (opts?.streamToServer) {
+            part.segmentChunks.push(chunk);
+            part.segmentElapsedMs += timesliceMs;
+            // A pause closes the segment early and drops the overlap, so audio from
+            // before and after the pause never ends up in the same upload.
+            if (part.segmentElapsedMs >= segmentTargetMs || pausedRef.current) {
+              const segBlob = new Blob(part.segmentChunks, { type: mimeType || undefined });
+              const span = segmentSpan(part);
+              const keep = pausedRef.current ? 0 : Math.min(part.segmentChunks.length, overlapCount);
+              part.segmentChunks = keep > 0 ? part.segmentChunks.slice(-keep) : [];
+              part.segmentElapsedMs = keep * timesliceMs;
+              sendChunkToTranscription(segBlob, span);
+            }
+          }
+
+          const partMs = clock.elapsedMs() - part.startOffsetMs;
+          const limitReached =
+            (splitAfterMs > 0 && partMs >= splitAfterMs) || (splitAtBytes > 0 && part.byteLength >= splitAtBytes);
+          if (limitReached && !part.closing && !pausedRef.current && partRef.current === part) {
+            rollOver(part);
+          }
+        };
+
+        recorder.onerror = (event: Event) => {
+          const err = (event as Event & { error?: DOMException }).error;
+          setState((s) => ({ ...s, error: `Recorder error: ${err?.message || 'unknown error'}` }));
+          part.closing = true;
+          // An error may already have stopped the recorder, and older browsers
+          // throw InvalidStateError when stop() is called on an inactive one
+          if (recorder.state !== 'inactive') recorder.stop();
+        };
+
+        recorder.onstop = () => {
+          const durationMs = clock.elapsedMs() - part.startOffsetMs;
+          const isFinal = partRef.current === part;
+          if (opts?.streamToServer) flushSegment(part);
+          if (isFinal) {
+            clock.pause();
+            pausedRef.current = false;
+            activeSessionRef.current = null;
+          }
+          void finishPart(part, durationMs, isFinal);
+        };
+
+        recorder.start(timesliceMs);
+        return part;
+      };
 
-        if (opts?.streamToServer && segmentChunksRef.current.length > 0) {
-          const segBlob = new Blob(segmentChunksRef.current, { type: mimeType || undefined });
-          segmentChunksRef.current = [];
-          segmentElapsedMsRef.current = 0;
-          void sendChunkToTranscription(segBlob);
+      // The next file starts before the current one stops, so the parts overlap
+      // by a few milliseconds at the boundary instead of dropping audio
+      const rollOver = (previous: RecorderPart) => {
+        let next: RecorderPart;
+        try {
+          next = startPart(previous.number + 1, clock.elapsedMs());
+        } catch (err) {
+          const reason = err instanceof Error ? err.message : String(err);
+          setState((s) => ({ ...s, error: `Could not start the next part, still recording part ${previous.number}: ${reason}` }));
+          return;
         }
+        partRef.current = next;
+        activeSessionRef.current = { session: next.session, startOffsetMs: next.startOffsetMs };
+        previous.closing = true;
+        previous.recorder.stop();
+        // Earlier markers stay with the part they were dropped in
+        setState((s) => ({ ...s, partNumber: next.number, markers: [], fileOffsetMs: next.startOffsetMs }));
       };
 
-      recorder.start(250);
+      const first = startPart(1, 0);
+      clock.start();
+      partRef.current = first;
+      activeSessionRef.current = { session: first.session, startOffsetMs: 0 };
 
       setState((s) => ({
         ...s,
         isRecording: true,
+        isPaused: false,
         error: null,
         activeBitRate: options.audioBitsPerSecond || null,
-        activeMimeType: mimeType || null,
+        activeMimeType: first.mimeType,
+        activeFormat: formatInfo?.format || null,
+        partNumber: series ? 1 : null,
+        markers: [],
+        fileDurationMs: null,
+        startedAt,
+        fileOffsetMs: 0,
+        sampleRate,
       }));
 
-      // Start timer
-      if (timerRef.current) {
-        window.clearInterval(timerRef.current);
-      }
-      timerRef.current = window.setInterval(() => {
-        setState((s) => ({ ...s, recordingTime: s.recordingTime + 0.25 }));
-      }, 250);
+      startTimer();
     } catch (err: any) {
       setState((s) => ({ ...s, error: `Failed to start recording: ${err?.message || String(err)}` }));
     }
-  }, [stream, sendChunkToTranscription]);
+  }, [
+    stream,
+    sendChunkToTranscription,
+    startTimer,
+    persistChunk,
+    opts?.audioContext,
+    opts?.segmentDurationSec,
+    opts?.streamToServer,
+  ]);
 
   const stopRecording = useCallback(() => {
     try {
-      if (timerRef.current) {
-        window.clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
-      if (mediaRecorderRef.current && state.isRecording) {
-        mediaRecorderRef.current.stop();
+      stopTimer();
+      clockRef.current?.pause();
+      const part = partRef.current;
+      if (part && state.isRecording && part.recorder.state !== 'inactive') {
+        part.closing = true;
+        part.recorder.stop();
       }
     } catch (err: any) {
       setState((s) => ({ ...s, error: `Failed to stop recording: ${err?.message || String(err)}` }));
     }
-  }, [state.isRecording]);
+  }, [state.isRecording, stopTimer]);
+
+  // Drops a named marker into the file being recorded at the current position
+  const addMarker = useCallback((label: string) => {
+    const part = partRef.current;
+    if (!part || part.closing || part.recorder.state === 'inactive') return;
+    const timeMs = Math.max(0, (clockRef.current?.elapsedMs() ?? 0) - part.startOffsetMs);
+    const marker: RecordingMarker = {
+      id: crypto.randomUUID(),
+      label: label.trim() || `Marker at ${formatDuration(timeMs / 1000)}`,
+      timeMs,
+    };
+    setState((s) => ({ ...s, markers: [...s.markers, marker] }));
+    void part.session
+      .then((sessionId) => (sessionId ? appendRecordingMarker(sessionId, marker) : undefined))
+      .catch((err) => console.warn('Unable to save marker with the recording', err));
+  }, []);
+
+  const pauseRecording = useCallback(() => {
+    const recorder = partRef.current?.recorder;
+    if (!recorder || recorder.state !== 'recording') return;
+    try {
+      pausedRef.current = true;
+      // Flush the partial timeslice so the open transcription segment closes now
+      recorder.requestData();
+      recorder.pause();
+      clockRef.current?.pause();
+      stopTimer();
+      setState((s) => ({ ...s, isPaused: true }));
+    } catch (err) {
+      pausedRef.current = false;
+      const reason = err instanceof Error ? err.message : String(err);
+      setState((s) => ({ ...s, error: `Failed to pause recording: ${reason}` }));
+    }
+  }, [stopTimer]);
+
+  const resumeRecording = useCallback(() => {
+    const part = partRef.current;
+    if (!part || part.recorder.state !== 'paused') return;
+    try {
+      pausedRef.current = false;
+      part.segmentChunks = [];
+      part.segmentElapsedMs = 0;
+      part.recorder.resume();
+      clockRef.current?.resume();
+      startTimer();
+      setState((s) => ({ ...s, isPaused: false }));
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setState((s) => ({ ...s, error: `Failed to resume recording: ${reason}` }));
+    }
+  }, [startTimer]);
 
   const clearRecording = useCallback(() => {
     try {
       if (state.downloadUrl) {
         URL.revokeObjectURL(state.downloadUrl);
       }
-      segmentChunksRef.current = [];
-      segmentElapsedMsRef.current = 0;
+      recordingBlobRef.current = null;
+      sessionIdRef.current = null;
+      partRef.current = null;
       setState((s) => ({
         ...s,
         downloadUrl: null,
@@ -264,36 +828,152 @@ export function useAudioRecording(
         error: null,
         activeBitRate: null,
         activeMimeType: null,
+        activeFormat: null,
+        partNumber: null,
+        markers: [],
+        fileDurationMs: null,
+        startedAt: null,
+        fileOffsetMs: null,
       }));
     } catch (err: any) {
       setState((s) => ({ ...s, error: `Failed to clear recording: ${err?.message || String(err)}` }));
     }
   }, [state.downloadUrl]);
 
-  const downloadRecording = useCallback(() => {
-    if (!state.downloadUrl) return;
-    const a = document.createElement('a');
-    a.href = state.downloadUrl;
-
-    // Use inferred extension if available
-    const ext = state.fileExtension || inferExtensionFromMime(state.downloadMimeType || '') || 'webm';
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    a.download = `capture-${timestamp}.${ext}`;
-    a.click();
-  }, [state.downloadUrl, state.downloadMimeType, state.fileExtension]);
-
-  const formatTime = useCallback((seconds: number) => {
-    const s = Math.floor(seconds % 60);
-    const m = Math.floor(seconds / 60);
-    return `${m}:${s.toString().padStart(2, '0')}`;
-  }, []);
+  // Turns a session left behind by a crash or reload into the current recording.
+  // Chunks from an interrupted MediaRecorder still form a playable file.
+  const recoverSession = useCallback(async (sessionId: string) => {
+    try {
+      const session = recoverableSessions.find((s) => s.id === sessionId);
+      const stored = await loadRecordingBlob(sessionId);
+      const blob = stored.type.includes('webm') ? await fixWebmMetadata(stored) : stored;
+      await finishRecordingSession(sessionId);
+      if (state.downloadUrl) {
+        URL.revokeObjectURL(state.downloadUrl);
+      }
+      sessionIdRef.current = sessionId;
+      recordingBlobRef.current = blob;
+      setRecoverableSessions((sessions) => sessions.filter((s) => s.id !== sessionId));
+      setState((s) => ({
+        ...s,
+        downloadUrl: URL.createObjectURL(blob),
+        fileSize: blob.size,
+        recordingTime: (session?.durationMs || 0) / 1000,
+        downloadMimeType: blob.type || session?.mimeType || null,
+        fileExtension: session?.fileExtension || inferExtensionFromMime(blob.type) || 'webm',
+        error: null,
+        partNumber: session?.part?.partNumber ?? null,
+        markers: session?.markers ?? [],
+        fileDurationMs: session?.durationMs ?? null,
+        startedAt: session ? (session.part?.seriesStartedAt ?? session.startedAt) : null,
+        fileOffsetMs: session?.part?.startOffsetMs ?? 0,
+        sampleRate: session?.sampleRate ?? null,
+      }));
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setState((s) => ({ ...s, error: `Failed to recover recording: ${reason}` }));
+    }
+  }, [recoverableSessions, state.downloadUrl]);
 
-  const formatFileSize = useCallback((bytes: number) => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  const discardSession = useCallback(async (sessionId: string) => {
+    setRecoverableSessions((sessions) => sessions.filter((s) => s.id !== sessionId));
+    try {
+      await deleteRecordingSession(sessionId);
+    } catch (err) {
+      console.warn('Unable to delete stored recording', err);
+    }
   }, []);
 
+  const downloadRecording = useCallback(async (format: ExportFormat = 'original', exportOpts?: { bitRate?: number }) => {
+    if (!state.downloadUrl) return;
+    const name = captureFileName(state.startedAt, state.partNumber);
+    const alreadyMp3 = (state.downloadMimeType || '').includes('mpeg');
+    const durationMs = state.fileDurationMs ?? state.recordingTime * 1000;
+    const source = recordingBlobRef.current;
+
+    if (format === 'original' || (format === 'mp3' && alreadyMp3)) {
+      // Use inferred extension if available
+      const ext = state.fileExtension || inferExtensionFromMime(state.downloadMimeType || '') || 'webm';
+      if (source && state.markers.length > 0) {
+        saveBlob(await embedChapters(source, state.markers, durationMs), `${name}.${ext}`);
+      } else {
+        saveUrl(state.downloadUrl, `${name}.${ext}`);
+      }
+      return;
+    }
+
+    if (!source) return;
+    try {
+      setState((s) => ({ ...s, exportProgress: 0, error: null }));
+      const onProgress = (progress: number) => setState((s) => ({ ...s, exportProgress: progress }));
+      const converted = await convertRecording(
+        source,
+        format,
+        { bitRate: exportOpts?.bitRate, sampleRate: state.sampleRate },
+        onProgress,
+      );
+      const ext = EXPORT_FORMATS.find((f) => f.format === format)?.extension;
+      saveBlob(await embedChapters(converted, state.markers, durationMs), `${name}.${ext}`);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setState((s) => ({ ...s, error: `Export failed: ${reason}` }));
+    } finally {
+      setState((s) => ({ ...s, exportProgress: null }));
+    }
+  }, [
+    state.downloadUrl,
+    state.downloadMimeType,
+    state.fileExtension,
+    state.partNumber,
+    state.markers,
+    state.fileDurationMs,
+    state.recordingTime,
+    state.startedAt,
+    state.sampleRate,
+  ]);
+
+  // Markers as a WebVTT chapter track or a JSON sidecar named after the recording
+  const downloadMarkers = useCallback((format: MarkerExportFormat) => {
+    if (state.markers.length === 0) return;
+    const name = captureFileName(state.startedAt, state.partNumber);
+    const durationMs = state.fileDurationMs ?? state.recordingTime * 1000;
+    if (format === 'vtt') {
+      const vtt = buildWebVttChapters(state.markers, durationMs);
+      saveBlob(new Blob([vtt], { type: 'text/vtt' }), `${name}.chapters.vtt`);
+    } else {
+      const json = buildMarkerSidecar(state.markers, { durationMs, startedAt: state.startedAt });
+      saveBlob(new Blob([json], { type: 'application/json' }), `${name}.markers.json`);
+    }
+  }, [state.markers, state.partNumber, state.fileDurationMs, state.recordingTime, state.startedAt]);
+
+  // The live transcript, named after the recording so the two stay paired.
+  // Times are moved to the start of the current file; entries from earlier
+  // parts are left out.
+  const downloadTranscript = useCallback((format: TranscriptExportFormat) => {
+    const entries = transcriptForFile(useTranscriptStore.getState().entries, state.fileOffsetMs ?? 0);
+    if (entries.length === 0) return;
+    const info = TRANSCRIPT_EXPORT_FORMATS.find((f) => f.format === format)!;
+    const text = buildTranscript(format, entries, {
+      startedAt: state.startedAt,
+      durationMs: state.downloadUrl ? (state.fileDurationMs ?? state.recordingTime * 1000) : null,
+      markers: state.markers,
+    });
+    const name = captureFileName(state.startedAt, state.partNumber);
+    saveBlob(new Blob([text], { type: info.mimeType }), `${name}.${info.extension}`);
+  }, [
+    state.fileOffsetMs,
+    state.startedAt,
+    state.partNumber,
+    state.downloadUrl,
+    state.fileDurationMs,
+    state.recordingTime,
+    state.markers,
+  ]);
+
+  const formatTime = useCallback((seconds: number) => formatDuration(seconds), []);
+
+  const formatFileSize = useCallback((bytes: number) => formatBytes(bytes), []);
+
   const estimatedFileSize = useCallback((seconds: number, bitRate = 128_000) => {
     // bitRate in bits/sec -> bytes
     const bytes = (bitRate / 8) * seconds;
@@ -304,114 +984,246 @@ export function useAudioRecording(
     state,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     clearRecording,
     downloadRecording,
+    addMarker,
+    downloadMarkers,
+    downloadTranscript,
+    recoverableSessions,
+    recoverSession,
+    discardSession,
     formatTime,
     formatFileSize,
     estimatedFileSize,
     startLiveSubtitles: useCallback(async () => {
-      if (liveSubtitlesEnabled) return;
-      if (!stream) {
+      if (liveSubtitlesEnabled || liveTapRef.current) return;
+      const context = opts?.audioContext;
+      const tapNode = opts?.tapNode;
+      if (!context || !tapNode) {
         setState((s) => ({ ...s, error: 'No audio stream available to start live subtitles.' }));
         return;
       }
       try {
-        const fmt = getFormatInfo('webm_opus')!;
-        const mime = getBestMimeTypeForFormat('webm_opus');
-        if (!mime) {
-          setState((s) => ({ ...s, error: 'WebM Opus recording is not supported in this browser.' }));
-          return;
-        }
-
-        const segmentTargetMs = Math.max(1000, (opts?.segmentDurationSec || 5) * 1000);
-        liveLoopActiveRef.current = true;
+        const provider = opts?.provider ?? DEFAULT_PROVIDER;
+        const speakerLabels = opts?.speakerLabels;
+        const onInterimTranscription = opts?.onInterimTranscription;
+        const channelCount = speakerLabels && speakerLabels.length > 1 ? speakerLabels.length : 1;
+        const segmentation = opts?.segmentation;
+        const segmentSamples = Math.round(Math.max(1, opts?.segmentDurationSec || 5) * LIVE_SAMPLE_RATE);
+        // Pause mode runs a detector per channel and cuts where all of them are quiet
+        const segmenter =
+          segmentation?.mode === 'pauses'
+            ? new SpeechSegmenter({
+                sampleRate: LIVE_SAMPLE_RATE,
+                minSegmentMs: segmentation.minSegmentSec * 1000,
+                maxSegmentMs: segmentation.maxSegmentSec * 1000,
+              })
+            : null;
+        const detectors = segmenter
+          ? Array.from({ length: channelCount }, () => new SpeechDetector({ sampleRate: LIVE_SAMPLE_RATE }))
+          : [];
+        const longestSegment = segmenter && segmentation ? segmentation.maxSegmentSec * LIVE_SAMPLE_RATE : segmentSamples;
+        const ring = new PcmRingBuffer(channelCount, Math.max(2 * longestSegment, LIVE_BUFFER_SECONDS * LIVE_SAMPLE_RATE));
+        // Context time of the tap's first sample; ring positions count from it
+        let tapStartTime: number | null = null;
 
-        const startSegmentRecorder = () => {
-          if (!liveLoopActiveRef.current) {
-            return;
+        const sendSegment = (count: number) => {
+          const startTime = (tapStartTime ?? 0) + ring.readPosition / LIVE_SAMPLE_RATE;
+          const channels = ring.read(count);
+          // Segments only have a place on the timeline while a recording runs
+          const startMs = clockRef.current?.timelineMsAt(startTime) ?? null;
+          const span = startMs != null ? { startMs, endMs: startMs + (count * 1000) / LIVE_SAMPLE_RATE } : undefined;
+          transcribeClips(pcmToChannelWavBlobs(channels, LIVE_SAMPLE_RATE), span);
+        };
+        const applyActions = (actions: SegmentAction[]) => {
+          for (const action of actions) {
+            if (action.type === 'send') sendSegment(action.samples);
+            else ring.skip(action.samples);
           }
-
-          const freshTrack = stream.getAudioTracks()[0];
-          if (!freshTrack) {
-            setState((s) => ({ ...s, error: 'Lost audio track during live subtitles.' }));
-            liveLoopActiveRef.current = false;
-            setLiveSubtitlesEnabled(false);
+        };
+        const sendRemainder = () => {
+          if (segmenter) {
+            applyActions(segmenter.flush());
             return;
           }
+          if (ring.available >= (MIN_LIVE_TAIL_MS * LIVE_SAMPLE_RATE) / 1000) sendSegment(ring.available);
+          else ring.skip(ring.available);
+        };
 
-          const audioOnlyStream = new MediaStream([freshTrack]);
-          let recorder: MediaRecorder;
-          try {
-            recorder = new MediaRecorder(audioOnlyStream, {
-              mimeType: mime,
-              audioBitsPerSecond: fmt.defaultBitRate,
-            });
-          } catch (segmentErr: any) {
-            setState((s) => ({ ...s, error: `Live subtitle recorder failed: ${segmentErr?.message || String(segmentErr)}` }));
-            liveLoopActiveRef.current = false;
+        // Streaming sends one stream per channel, or a single one for an engine
+        // that hears the microphone (the first channel when they are split).
+        // Paused stretches are not sent, so each run of sent audio remembers
+        // where it began in context time to map the server's stream times back
+        // onto the timeline.
+        let streams: TranscriptionStream[] | null = null;
+        const sentRuns: { streamSample: number; contextTime: number }[] = [];
+        let streamedSamples = 0;
+        let wasPaused = false;
+        const speakerOf = (channel: number) =>
+          channelCount > 1 ? speakerLabels?.[channel] || `Channel ${channel + 1}` : undefined;
+        const clearInterim = () => {
+          for (let channel = 0; channel < channelCount; channel++) {
+            onInterimTranscription?.({ text: '', speaker: speakerOf(channel) });
+          }
+        };
+        const timelineMsAtStream = (seconds: number) => {
+          const sample = seconds * LIVE_SAMPLE_RATE;
+          const run = sentRuns.filter((r) => r.streamSample <= sample).pop();
+          if (!run) return null;
+          return clockRef.current?.timelineMsAt(run.contextTime + (sample - run.streamSample) / LIVE_SAMPLE_RATE) ?? null;
+        };
+        const onHypothesis = (channel: number, hypothesis: StreamingHypothesis) => {
+          const speaker = speakerOf(channel);
+          onInterimTranscription?.({ text: hypothesis.isFinal ? '' : hypothesis.text, speaker });
+          if (!hypothesis.isFinal) return;
+          const duration = Math.max(0, hypothesis.end - hypothesis.start);
+          const response: TranscriptionResponse = {
+            text: hypothesis.text,
+            speaker,
+            duration,
+            segments: [{ start: 0, end: duration, text: hypothesis.text, speaker }],
+            chunkId: `stream-${++chunkCountRef.current}`,
+            provider: provider.id,
+          };
+          const startMs = timelineMsAtStream(hypothesis.start);
+          deliverTranscripts([
+            startMs != null ? anchorToSession(response, { startMs, endMs: startMs + duration * 1000 }) : response,
+          ]);
+        };
+        const fallBackToHttp = (reason: string) => {
+          if (!streams) return;
+          streams.forEach((stream) => stream.close());
+          streams = null;
+          clearInterim();
+          if (!provider.transcribe) {
+            // Nothing to fall back to; live subtitles end here
+            setState((s) => ({ ...s, error: `Live subtitles stopped: ${reason}` }));
+            liveTapRef.current?.stop();
+            liveTapRef.current = null;
             setLiveSubtitlesEnabled(false);
+            setLiveTransport(null);
             return;
           }
+          console.warn(`Streaming transcription stopped (${reason}), falling back to HTTP segments`);
+          setLiveTransport('http');
+        };
 
-          liveRecorderRef.current = recorder;
-          const chunks: Blob[] = [];
+        const openStream = provider.openStream;
+        const streamCount = provider.listensToMicrophone ? 1 : channelCount;
+        const opened = openStream
+          ? await Promise.allSettled(
+              Array.from({ length: streamCount }, (_, channel) =>
+                openStream({
+                  sampleRate: LIVE_SAMPLE_RATE,
+                  language: opts?.transcriptionOptions?.language,
+                  task: opts?.transcriptionOptions?.task,
+                  onHypothesis: (hypothesis) => onHypothesis(channel, hypothesis),
+                  onClose: fallBackToHttp,
+                }),
+              ),
+            )
+          : [];
+        const connected = opened.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+        if (openStream && connected.length === streamCount) {
+          streams = connected;
+        } else {
+          connected.forEach((stream) => stream.close());
+          const failure = opened.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+          if (!provider.transcribe) throw failure?.reason ?? new Error(`${provider.label} cannot transcribe live audio`);
+          if (failure) console.warn('Streaming transcription unavailable, using HTTP segments', failure.reason);
+        }
 
-          recorder.ondataavailable = (ev) => {
-            if (ev.data && ev.data.size > 0) {
-              chunks.push(ev.data);
+        const tap = await startPcmTap(context, tapNode, {
+          channelCount,
+          sampleRate: LIVE_SAMPLE_RATE,
+          onFrame: (frame) => {
+            tapStartTime ??= frame.contextTime - frame.startFrame / LIVE_SAMPLE_RATE;
+            const paused = pausedRef.current;
+            const resumed = wasPaused && !paused;
+            const pauseStarted = paused && !wasPaused;
+            wasPaused = paused;
+            if (streams) {
+              if (pauseStarted) streams.forEach((stream) => stream.flush());
+              if (!paused) {
+                if (resumed || sentRuns.length === 0) {
+                  sentRuns.push({ streamSample: streamedSamples, contextTime: frame.contextTime });
+                }
+                streams.forEach((stream, channel) => stream.sendPcm(frame.channels[channel]));
+                streamedSamples += frame.channels[0].length;
+              }
+              // Keeps ring positions in step with the tap in case of a fallback
+              ring.write(frame.channels);
+              ring.skip(ring.available);
+              return;
             }
-          };
-
-          recorder.onerror = (event: Event) => {
-            const err = (event as any).error;
-            setState((s) => ({ ...s, error: `Recorder error: ${err?.message || 'unknown error'}` }));
-          };
-
-          recorder.onstop = () => {
-            if (chunks.length > 0) {
-              const payload = new Blob(chunks, { type: mime });
-              void sendChunkToTranscription(payload);
+            // Live subtitles skip a paused recording's stretch too: close the
+            // open segment, then drop frames until it resumes
+            if (paused) {
+              sendRemainder();
+              ring.write(frame.channels);
+              ring.skip(ring.available);
+              return;
             }
-
-            if (liveLoopActiveRef.current) {
-              startSegmentRecorder();
+            ring.write(frame.channels);
+            if (segmenter) {
+              const features = detectors.map((detector, channel) => detector.analyse(frame.channels[channel]));
+              const speech = features.some((feature) => feature.speech);
+              const levelDb = Math.max(...features.map((feature) => feature.levelDb));
+              applyActions(segmenter.push(frame.channels[0].length, speech, levelDb));
+              return;
             }
-          };
-
-          recorder.start();
-          window.setTimeout(() => {
-            if (recorder.state === 'recording') {
-              try {
-                recorder.stop();
-              } catch {}
+            while (ring.available >= segmentSamples) sendSegment(segmentSamples);
+          },
+        });
+        liveTapRef.current = {
+          stop: () => {
+            tap.stop();
+            if (!streams) {
+              sendRemainder();
+              return;
             }
-          }, segmentTargetMs);
+            // Finals for the last words still arrive while the streams finish
+            const finishing = streams;
+            streams = null;
+            void Promise.all(finishing.map((stream) => stream.finish())).then(clearInterim);
+          },
         };
-
+        setLiveTransport(streams ? 'stream' : 'http');
         setLiveSubtitlesEnabled(true);
-        startSegmentRecorder();
       } catch (err: any) {
         setState((s) => ({ ...s, error: `Failed to start live subtitles: ${err?.message || String(err)}` }));
       }
-    }, [stream, liveSubtitlesEnabled, opts?.segmentDurationSec, opts?.onTranscription, sendChunkToTranscription]),
+    }, [
+      liveSubtitlesEnabled,
+      opts?.audioContext,
+      opts?.tapNode,
+      opts?.segmentDurationSec,
+      opts?.segmentation,
+      opts?.speakerLabels,
+      opts?.onInterimTranscription,
+      opts?.provider,
+      opts?.transcriptionOptions,
+      transcribeClips,
+      deliverTranscripts,
+    ]),
 
     stopLiveSubtitles: useCallback(() => {
       try {
-        liveLoopActiveRef.current = false;
-        const recorder = liveRecorderRef.current;
-        if (recorder) {
-          liveRecorderRef.current = null;
-          if (recorder.state === 'recording') {
-            recorder.stop();
-          }
-        }
+        liveTapRef.current?.stop();
+        liveTapRef.current = null;
         setLiveSubtitlesEnabled(false);
+        setLiveTransport(null);
       } catch (err: any) {
         setState((s) => ({ ...s, error: `Failed to stop live subtitles: ${err?.message || String(err)}` }));
       }
     }, []),
 
     liveSubtitlesEnabled,
+    liveTransport,
+    uploadStats,
+    resetFailedUploads: useCallback(() => uploadQueueRef.current?.resetFailed(), []),
   };
 }
 
@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { anchorToSession, type TranscriptionOptions } from '../services/transcription';
+import { createTranscriptionProvider, type TranscriptionProvider } from '../services/transcriptionProviders';
+import { UploadQueue } from '../services/uploadQueue';
+import { decodeMonoPcm, pcmToChannelWavBlobs } from '../utils/audioProcessing';
+import { splitAtSilence, type PcmSpan } from '../utils/silenceSplit';
+import { useTranscriptStore } from './useTranscriptStore';
+
+// Whisper reads 30 s windows, and 30 s of 16 kHz WAV is about 1 MB, well
+// below the server's upload limit
+const CHUNK_MIN_MS = 15_000;
+const CHUNK_MAX_MS = 30_000;
+// A 30 s chunk can take a while on a CPU-only server
+const CHUNK_TIMEOUT_MS = 120_000;
+const PROMPT_TAIL_CHARS = 200;
+const DEFAULT_PROVIDER = createTranscriptionProvider('whisper-server');
+
+export type BatchTranscriptionStatus = 'idle' | 'decoding' | 'running' | 'paused' | 'done' | 'error';
+
+export interface BatchTranscriptionState {
+  status: BatchTranscriptionStatus;
+  // File being transcribed
+  name: string | null;
+  // Chunks transcribed, of total
+  done: number;
+  total: number;
+  // Waiting for the server to come back
+  offline: boolean;
+  error: string | null;
+}
+
+interface BatchJob {
+  name: string;
+  samples: Float32Array;
+  sampleRate: number;
+  spans: PcmSpan[];
+  // Where the file sits on the transcript's timeline
+  offsetMs: number;
+  // First chunk not transcribed yet; a resume starts here
+  next: number;
+  // End of the text so far, as the prompt for the next chunk
+  promptTail: string;
+  provider: TranscriptionProvider;
+  options?: TranscriptionOptions;
+}
+
+const IDLE: BatchTranscriptionState = {
+  status: 'idle',
+  name: null,
+  done: 0,
+  total: 0,
+  offline: false,
+  error: null,
+};
+
+// Transcribes a finished recording or an imported file after the fact. The
+// audio is decoded once, cut at silences into chunks and uploaded one at a
+// time, so each chunk gets the text before it as its prompt. Results go to the
+// transcript store as they arrive. Cancelling keeps what is done, and resume
+// carries on from the first chunk still missing.
+export function useBatchTranscription(opts?: {
+  provider?: TranscriptionProvider;
+  transcriptionOptions?: TranscriptionOptions;
+}) {
+  const [state, setState] = useState<BatchTranscriptionState>(IDLE);
+  const jobRef = useRef<BatchJob | null>(null);
+  const queueRef = useRef<UploadQueue | null>(null);
+  // Bumped by each new file and by cancel, so a decode that finishes late is ignored
+  const runRef = useRef(0);
+
+  const stopQueue = useCallback(() => {
+    queueRef.current?.dispose();
+    queueRef.current = null;
+  }, []);
+
+  useEffect(() => stopQueue, [stopQueue]);
+
+  const run = useCallback(
+    (job: BatchJob) => {
+      stopQueue();
+      const transcribe = job.provider.transcribe;
+      if (!transcribe) {
+        setState((s) => ({ ...s, status: 'error', error: `${job.provider.label} cannot transcribe files` }));
+        return;
+      }
+      const queue = new UploadQueue({
+        concurrency: 1,
+        timeoutMs: CHUNK_TIMEOUT_MS,
+        maxBacklog: Infinity,
+        onFailure: (err) => {
+          // Later chunks wait for a resume, so the transcript has no gap
+          stopQueue();
+          setState((s) => ({
+            ...s,
+            status: 'error',
+            offline: false,
+            error: `Chunk ${job.next + 1} failed: ${err.message}`,
+          }));
+        },
+        onChange: (stats) => setState((s) => ({ ...s, offline: stats.offline })),
+      });
+      queueRef.current = queue;
+      setState((s) => ({ ...s, status: 'running', done: job.next, total: job.spans.length, error: null }));
+
+      job.spans.slice(job.next).forEach((span, i) => {
+        const index = job.next + i;
+        const startMs = job.offsetMs + (span.start / job.sampleRate) * 1000;
+        const endMs = job.offsetMs + (span.end / job.sampleRate) * 1000;
+        queue.enqueue({
+          run: async (signal) => {
+            const [clip] = pcmToChannelWavBlobs([job.samples.subarray(span.start, span.end)], job.sampleRate);
+            // Nothing to hear in a silent chunk
+            if (!clip) return null;
+            const prompt = [job.options?.prompt, job.promptTail].filter(Boolean).join(' ');
+            return transcribe(clip, { ...job.options, prompt: prompt || undefined, signal });
+          },
+          deliver: (response) => {
+            if (response) {
+              const anchored = anchorToSession(response, { startMs, endMs });
+              useTranscriptStore.getState().addResponse({
+                ...anchored,
+                chunkId: `batch-${index + 1}`,
+                provider: job.provider.id,
+              });
+              const text = (response.text || '').replace(/\s+/g, ' ').trim();
+              if (text) job.promptTail = `${job.promptTail} ${text}`.trim().slice(-PROMPT_TAIL_CHARS);
+            }
+            job.next = index + 1;
+            const finished = job.next === job.spans.length;
+            if (finished) {
+              stopQueue();
+              jobRef.current = null;
+            }
+            setState((s) => ({ ...s, status: finished ? 'done' : s.status, done: job.next }));
+          },
+        });
+      });
+    },
+    [stopQueue],
+  );
+
+  // Decodes `blob` and starts transcribing it. offsetMs places the file on
+  // the transcript's timeline, e.g. a later part of a split recording.
+  const transcribeFile = useCallback(
+    async (blob: Blob, { name, offsetMs = 0 }: { name: string; offsetMs?: number }) => {
+      stopQueue();
+      jobRef.current = null;
+      const runId = ++runRef.current;
+      setState({ ...IDLE, status: 'decoding', name });
+      try {
+        const { samples, sampleRate } = await decodeMonoPcm(blob);
+        if (runId !== runRef.current) return;
+        const spans = splitAtSilence(samples, sampleRate, { minMs: CHUNK_MIN_MS, maxMs: CHUNK_MAX_MS });
+        if (spans.length === 0) throw new Error('The file has no audio');
+        const job: BatchJob = {
+          name,
+          samples,
+          sampleRate,
+          spans,
+          offsetMs,
+          next: 0,
+          promptTail: '',
+          provider: opts?.provider ?? DEFAULT_PROVIDER,
+          options: opts?.transcriptionOptions,
+        };
+        jobRef.current = job;
+        run(job);
+      } catch (err) {
+        if (runId !== runRef.current) return;
+        const reason = err instanceof Error ? err.message : String(err);
+        setState((s) => ({ ...s, status: 'error', error: `Unable to decode ${name}: ${reason}` }));
+      }
+    },
+    [opts?.provider, opts?.transcriptionOptions, run, stopQueue],
+  );
+
+  // Stops after the chunks already transcribed; the rest can be resumed
+  const cancel = useCallback(() => {
+    runRef.current++;
+    stopQueue();
+    setState((s) => (jobRef.current ? { ...s, status: 'paused', offline: false } : IDLE));
+  }, [stopQueue]);
+
+  const resume = useCallback(() => {
+    if (jobRef.current) run(jobRef.current);
+  }, [run]);
+
+  // Forgets the file, e.g. once the user is done with the result
+  const dismiss = useCallback(() => {
+    runRef.current++;
+    stopQueue();
+    jobRef.current = null;
+    setState(IDLE);
+  }, [stopQueue]);
+
+  return { state, transcribeFile, cancel, resume, dismiss };
+}
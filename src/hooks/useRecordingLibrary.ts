@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  deleteRecordingSession,
+  listRecordingSessions,
+  loadRecordingBlob,
+  renameRecordingSession,
+  type RecordingSession,
+} from '../services/recordingStore';
+import { fixWebmMetadata } from '../utils/webmFix';
+
+// Stored chunks are raw MediaRecorder output; WebM needs its duration and seek
+// index rebuilt before playback or download
+async function loadPlayableRecording(id: string): Promise<Blob> {
+  const blob = await loadRecordingBlob(id);
+  return blob.type.includes('webm') ? fixWebmMetadata(blob) : blob;
+}
+
+// Finished recordings kept in IndexedDB. Interrupted sessions are left to the
+// recovery prompt on the recorder page.
+export function useRecordingLibrary() {
+  const [recordings, setRecordings] = useState<RecordingSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const sessions = await listRecordingSessions();
+      setRecordings(sessions.filter((session) => session.status === 'finished'));
+      setError(null);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setError(`Unable to load recordings: ${reason}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const renameRecording = useCallback(async (id: string, name: string) => {
+    try {
+      await renameRecordingSession(id, name);
+      const trimmed = name.trim() || null;
+      setRecordings((prev) => prev.map((r) => (r.id === id ? { ...r, name: trimmed } : r)));
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setError(`Failed to rename recording: ${reason}`);
+    }
+  }, []);
+
+  const deleteRecording = useCallback(async (id: string) => {
+    try {
+      await deleteRecordingSession(id);
+      setRecordings((prev) => prev.filter((r) => r.id !== id));
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      setError(`Failed to delete recording: ${reason}`);
+    }
+  }, []);
+
+  return {
+    recordings,
+    loading,
+    error,
+    refresh,
+    renameRecording,
+    deleteRecording,
+    loadRecording: loadPlayableRecording,
+  };
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import type { RecordingFormat, RecordingSettings } from '../types/audio.types';
+import { getFormatInfo } from './useAudioRecording';
+
+const STORAGE_KEY = 'recordingPreferences';
+
+const DEFAULT_SETTINGS: RecordingSettings = {
+  format: 'webm_opus',
+  bitRate: 128_000,
+  splitMinutes: 0,
+  splitMegabytes: 0,
+};
+
+const nonNegative = (value: unknown) => (typeof value === 'number' && value >= 0 ? value : 0);
+
+function loadSettings(): RecordingSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') as Partial<RecordingSettings> | null;
+    if (saved && saved.format && getFormatInfo(saved.format)) {
+      return {
+        format: saved.format,
+        bitRate: typeof saved.bitRate === 'number' && saved.bitRate > 0 ? saved.bitRate : DEFAULT_SETTINGS.bitRate,
+        splitMinutes: nonNegative(saved.splitMinutes),
+        splitMegabytes: nonNegative(saved.splitMegabytes),
+      };
+    }
+  } catch {
+    // Corrupt or unavailable storage falls through to the defaults
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function useRecordingPreferences() {
+  const [settings, setSettings] = useState<RecordingSettings>(loadSettings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Unable to persist recording preferences', error);
+    }
+  }, [settings]);
+
+  const setFormat = (format: RecordingFormat) => {
+    setSettings(prev => ({ ...prev, format }));
+  };
+
+  const setBitRate = (bitRate: number) => {
+    setSettings(prev => ({ ...prev, bitRate }));
+  };
+
+  const setSplitMinutes = (splitMinutes: number) => {
+    setSettings(prev => ({ ...prev, splitMinutes }));
+  };
+
+  const setSplitMegabytes = (splitMegabytes: number) => {
+    setSettings(prev => ({ ...prev, splitMegabytes }));
+  };
+
+  return {
+    settings,
+    setFormat,
+    setBitRate,
+    setSplitMinutes,
+    setSplitMegabytes,
+  };
+}
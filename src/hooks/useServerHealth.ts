@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import type { TranscriptionProvider } from '../services/transcriptionProviders';
+
+const POLL_INTERVAL_MS = 5000;
+const HEALTH_TIMEOUT_MS = 3000;
+
+export interface ServerHealth {
+  // 'none' for engines without a server to check
+  status: 'none' | 'checking' | 'online' | 'offline';
+  // Round trip of the last successful check
+  latencyMs: number | null;
+  error: string | null;
+}
+
+const NO_SERVER: ServerHealth = { status: 'none', latencyMs: null, error: null };
+
+// Polls the engine's health endpoint every few seconds while mounted
+export function useServerHealth(provider: TranscriptionProvider | null | undefined): ServerHealth {
+  const [health, setHealth] = useState<ServerHealth>(NO_SERVER);
+  const checkHealth = provider?.checkHealth;
+
+  useEffect(() => {
+    if (!checkHealth) {
+      setHealth(NO_SERVER);
+      return;
+    }
+    setHealth({ status: 'checking', latencyMs: null, error: null });
+    let cancelled = false;
+    let timer: number | null = null;
+    let controller: AbortController | null = null;
+
+    const poll = async () => {
+      controller = new AbortController();
+      const timeout = window.setTimeout(() => controller?.abort(), HEALTH_TIMEOUT_MS);
+      const startedAt = performance.now();
+      try {
+        await checkHealth(controller.signal);
+        if (!cancelled) {
+          setHealth({ status: 'online', latencyMs: Math.round(performance.now() - startedAt), error: null });
+        }
+      } catch (err) {
+        if (!cancelled) {
+          const reason = err instanceof Error ? err.message : String(err);
+          const error = controller.signal.aborted ? 'No answer' : reason;
+          setHealth({ status: 'offline', latencyMs: null, error });
+        }
+      } finally {
+        window.clearTimeout(timeout);
+        if (!cancelled) timer = window.setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+    void poll();
+
+    return () => {
+      cancelled = true;
+      if (timer) window.clearTimeout(timer);
+      controller?.abort();
+    };
+  }, [checkHealth]);
+
+  return health;
+}
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import type { TranscriptionProviderId } from '../types/audio.types';
+import type { TranscriptionResponse } from '../services/transcription';
+import { mergeTranscriptLine, type TranscriptLine } from '../utils/transcriptMerge';
+
+// One transcribed segment. startMs/endMs are on the recording timeline
+// (SessionClock), and absent for audio transcribed while nothing was recording.
+export interface TranscriptEntry extends TranscriptLine {
+  id: string;
+  // Upload or stream result the segment came from
+  chunkId?: string;
+  // Language the engine reported for it
+  language?: string;
+  provider?: TranscriptionProviderId;
+}
+
+interface TranscriptState {
+  entries: TranscriptEntry[];
+  // Adds a transcription result, merged with what is there, and returns the
+  // entries that were appended
+  addResponse: (response: TranscriptionResponse) => TranscriptEntry[];
+  clear: () => void;
+}
+
+let nextEntryId = 1;
+
+const clean = (text: string | undefined) => (text || '').replace(/\s+/g, ' ').trim();
+
+// A response's segments when the engine sent them, otherwise its whole text
+function entriesOf(response: TranscriptionResponse): TranscriptEntry[] {
+  const shared = {
+    chunkId: response.chunkId,
+    language: response.detected_language,
+    provider: response.provider,
+  };
+  const segments = (response.segments || []).filter((segment) => clean(segment.text));
+  if (segments.length === 0) {
+    if (!clean(response.text)) return [];
+    return [
+      {
+        ...shared,
+        id: `t${nextEntryId++}`,
+        text: clean(response.text),
+        speaker: response.speaker,
+        startMs: response.sessionStartMs,
+        endMs: response.sessionEndMs,
+      },
+    ];
+  }
+  return segments.map((segment) => ({
+    ...shared,
+    id: `t${nextEntryId++}`,
+    text: clean(segment.text),
+    speaker: segment.speaker ?? response.speaker,
+    startMs: segment.sessionStartMs,
+    endMs: segment.sessionEndMs,
+  }));
+}
+
+// The live transcript: everything transcribed since the last clear, for the
+// subtitles, the transcript panel and exports
+export const useTranscriptStore = create<TranscriptState>()((set, get) => ({
+  entries: [],
+  addResponse: (response) => {
+    const added: TranscriptEntry[] = [];
+    let entries = get().entries;
+    entriesOf(response).forEach((entry, index) => {
+      // Only the first segment can repeat audio that an earlier upload covered
+      const next = index === 0 ? mergeTranscriptLine(entries, entry) : [...entries, entry];
+      if (next.length > entries.length) added.push(next[next.length - 1]);
+      entries = next;
+    });
+    if (entries !== get().entries) set({ entries });
+    return added;
+  },
+  clear: () => set({ entries: [] }),
+}));
+
+// Entries with their times moved to a file that starts offsetMs into the
+// recording, as for one part of a split recording. Entries that ended before
+// it are left out.
+export function transcriptForFile(entries: TranscriptEntry[], offsetMs: number): TranscriptEntry[] {
+  return entries
+    .filter((entry) => entry.endMs == null || entry.endMs > offsetMs)
+    .map((entry) => ({
+      ...entry,
+      startMs: entry.startMs != null ? Math.max(0, entry.startMs - offsetMs) : undefined,
+      endMs: entry.endMs != null ? entry.endMs - offsetMs : undefined,
+    }));
+}
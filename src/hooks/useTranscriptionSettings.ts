@@ -0,0 +1,91 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { TranscriptionProviderId, TranscriptionSettings, TranscriptionTask } from '../types/audio.types';
+import { TRANSCRIPTION_PROVIDERS } from '../services/transcriptionProviders';
+
+const STORAGE_KEY = 'transcriptionSettings';
+const MAX_PROMPT_LENGTH = 500;
+
+const DEFAULT_SETTINGS: TranscriptionSettings = {
+  provider: 'whisper-server',
+  serverUrls: {},
+  language: 'auto',
+  task: 'transcribe',
+  prompt: '',
+  temperature: null,
+};
+
+const isProvider = (value: unknown): value is TranscriptionProviderId =>
+  TRANSCRIPTION_PROVIDERS.some((p) => p.id === value);
+
+// Only http(s) URLs are kept, without a trailing slash
+export function normalizeServerUrl(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    return url.href.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+function sanitize(saved: Partial<TranscriptionSettings> | undefined): TranscriptionSettings {
+  const serverUrls: TranscriptionSettings['serverUrls'] = {};
+  Object.entries(saved?.serverUrls || {}).forEach(([provider, url]) => {
+    const normalized = typeof url === 'string' ? normalizeServerUrl(url) : null;
+    if (isProvider(provider) && normalized) serverUrls[provider] = normalized;
+  });
+  const temperature = saved?.temperature;
+  return {
+    provider: isProvider(saved?.provider) ? saved.provider : DEFAULT_SETTINGS.provider,
+    serverUrls,
+    language: typeof saved?.language === 'string' && saved.language ? saved.language : DEFAULT_SETTINGS.language,
+    task: saved?.task === 'translate' ? 'translate' : 'transcribe',
+    prompt: typeof saved?.prompt === 'string' ? saved.prompt.slice(0, MAX_PROMPT_LENGTH) : '',
+    temperature: typeof temperature === 'number' && temperature >= 0 && temperature <= 1 ? temperature : null,
+  };
+}
+
+interface TranscriptionSettingsState {
+  settings: TranscriptionSettings;
+  setProvider: (provider: TranscriptionProviderId) => void;
+  // An empty url goes back to the default server
+  setServerUrl: (provider: TranscriptionProviderId, url: string) => void;
+  setLanguage: (language: string) => void;
+  setTask: (task: TranscriptionTask) => void;
+  setPrompt: (prompt: string) => void;
+  setTemperature: (temperature: number | null) => void;
+}
+
+// Shared by the recorder and the Settings page, which are mounted side by side,
+// and kept in localStorage
+export const useTranscriptionSettings = create<TranscriptionSettingsState>()(
+  persist(
+    (set) => ({
+      settings: DEFAULT_SETTINGS,
+      setProvider: (provider) => set((state) => ({ settings: { ...state.settings, provider } })),
+      setServerUrl: (provider, url) =>
+        set((state) => {
+          const serverUrls = { ...state.settings.serverUrls };
+          const normalized = normalizeServerUrl(url);
+          if (normalized) serverUrls[provider] = normalized;
+          else delete serverUrls[provider];
+          return { settings: { ...state.settings, serverUrls } };
+        }),
+      setLanguage: (language) => set((state) => ({ settings: { ...state.settings, language } })),
+      setTask: (task) => set((state) => ({ settings: { ...state.settings, task } })),
+      setPrompt: (prompt) =>
+        set((state) => ({ settings: { ...state.settings, prompt: prompt.slice(0, MAX_PROMPT_LENGTH) } })),
+      setTemperature: (temperature) => set((state) => ({ settings: { ...state.settings, temperature } })),
+    }),
+    {
+      name: STORAGE_KEY,
+      partialize: (state) => ({ settings: state.settings }),
+      // Corrupt or outdated storage falls back to the defaults
+      merge: (persisted, current) => ({
+        ...current,
+        settings: sanitize((persisted as Partial<TranscriptionSettingsState> | undefined)?.settings),
+      }),
+    },
+  ),
+);
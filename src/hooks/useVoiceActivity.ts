@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Timers rather than requestAnimationFrame: rAF stops in background tabs, and
+// voice activation has to keep working while the user watches another tab.
+// Browsers throttle hidden-tab timers to about once a second, which only
+// delays detection.
+const POLL_INTERVAL_MS = 100;
+// Level has to stay above the threshold this long, so clicks do not trigger
+const ATTACK_MS = 150;
+const SILENCE_FLOOR_DB = -100;
+// How far the recording should lag this detector, so the start of an
+// utterance is still on its way to the recorder when it starts or resumes:
+// the attack, up to one poll, and the time a recorder takes to get going
+export const VOICE_PRE_ROLL_MS = 500;
+
+export interface VoiceActivityOptions {
+  enabled: boolean;
+  thresholdDb: number;
+  hangoverMs: number;
+  // Fired once when the hangover of silence has run out
+  onSilence?: () => void;
+}
+
+export interface VoiceActivityState {
+  voiceActive: boolean;
+  levelDb: number;
+}
+
+const INACTIVE: VoiceActivityState = { voiceActive: false, levelDb: SILENCE_FLOOR_DB };
+
+function rmsLevelDb(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  const rms = Math.sqrt(sum / (samples.length || 1));
+  return rms > 0 ? Math.max(SILENCE_FLOOR_DB, 20 * Math.log10(rms)) : SILENCE_FLOOR_DB;
+}
+
+// Simple energy gate on the capture analyser with attack and hangover times
+export const useVoiceActivity = (analyserNode: AnalyserNode | null, options: VoiceActivityOptions) => {
+  const { enabled, thresholdDb, hangoverMs } = options;
+  const [state, setState] = useState<VoiceActivityState>(INACTIVE);
+  const onSilenceRef = useRef(options.onSilence);
+  onSilenceRef.current = options.onSilence;
+
+  useEffect(() => {
+    if (!analyserNode || !enabled) {
+      setState(INACTIVE);
+      return;
+    }
+
+    const samples = new Float32Array(analyserNode.fftSize);
+    let voiceActive = false;
+    let aboveSince: number | null = null;
+    let lastAboveAt = 0;
+
+    const poll = () => {
+      analyserNode.getFloatTimeDomainData(samples);
+      const levelDb = rmsLevelDb(samples);
+      const now = performance.now();
+
+      if (levelDb >= thresholdDb) {
+        aboveSince ??= now;
+        lastAboveAt = now;
+        if (!voiceActive && now - aboveSince >= ATTACK_MS) {
+          voiceActive = true;
+        }
+      } else {
+        aboveSince = null;
+        if (voiceActive && now - lastAboveAt >= hangoverMs) {
+          voiceActive = false;
+          onSilenceRef.current?.();
+        }
+      }
+
+      setState((prev) =>
+        prev.voiceActive === voiceActive && Math.abs(prev.levelDb - levelDb) < 0.5 ? prev : { voiceActive, levelDb },
+      );
+    };
+
+    const timer = window.setInterval(poll, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [analyserNode, enabled, thresholdDb, hangoverMs]);
+
+  return state;
+};
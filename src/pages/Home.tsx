@@ -1,3 +1,5 @@
+import { AudioCapture } from '../components/AudioCapture';
+
 export default function Home() {
-  return <div></div>;
-}
\ No newline at end of file
+  return <AudioCapture />;
+}
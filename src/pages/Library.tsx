@@ -0,0 +1,5 @@
+import { RecordingLibrary } from '../components/RecordingLibrary';
+
+export default function Library() {
+  return <RecordingLibrary />;
+}
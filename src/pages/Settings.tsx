@@ -0,0 +1,5 @@
+import { ServerSettings } from '../components/ServerSettings';
+
+export default function Settings() {
+  return <ServerSettings />;
+}
@@ -0,0 +1,75 @@
+import pcmTapWorkletUrl from '../worklets/pcmTap.worklet.ts?worker&url';
+import type { PcmTapFrame, PcmTapProcessorOptions } from '../worklets/pcmTap.worklet';
+
+// Taps a node of the live capture graph with the pcm-tap worklet and streams
+// fixed-rate PCM frames back, without touching what is being recorded. One
+// channel downmixes the source; more keep its channels apart (Me/Remote).
+
+export type { PcmTapFrame };
+
+export interface PcmTapOptions {
+  channelCount: number;
+  sampleRate: number;
+  frameMs?: number;
+  onFrame: (frame: PcmTapFrame) => void;
+}
+
+export interface PcmTap {
+  stop: () => void;
+}
+
+// Name registered by the worklet module
+const PROCESSOR_NAME = 'pcm-tap';
+const DEFAULT_FRAME_MS = 20;
+
+// addModule only needs to run once per context
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const loadProcessor = (context: BaseAudioContext): Promise<void> => {
+  let loading = loadedContexts.get(context);
+  if (!loading) {
+    loading = context.audioWorklet.addModule(pcmTapWorkletUrl);
+    loading.catch(() => loadedContexts.delete(context));
+    loadedContexts.set(context, loading);
+  }
+  return loading;
+};
+
+export async function startPcmTap(
+  context: BaseAudioContext,
+  source: AudioNode,
+  { channelCount, sampleRate, frameMs = DEFAULT_FRAME_MS, onFrame }: PcmTapOptions,
+): Promise<PcmTap> {
+  if (!context.audioWorklet) {
+    throw new Error('AudioWorklet is not supported in this browser');
+  }
+  await loadProcessor(context);
+
+  const processorOptions: PcmTapProcessorOptions = {
+    channelCount,
+    targetSampleRate: sampleRate,
+    frameLength: Math.round((sampleRate * frameMs) / 1000),
+  };
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount,
+    channelCountMode: 'explicit',
+    channelInterpretation: channelCount === 1 ? 'speakers' : 'discrete',
+    processorOptions,
+  });
+  node.port.onmessage = (event: MessageEvent<PcmTapFrame>) => onFrame(event.data);
+  source.connect(node);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      node.port.postMessage('stop');
+      try {
+        source.disconnect(node);
+      } catch {
+        // Already gone with its context
+      }
+    },
+  };
+}
@@ -0,0 +1,231 @@
+import type { CaptureMode, RecordingMarker, TranscriptionProviderId } from '../types/audio.types';
+
+// Recording chunks are written to IndexedDB as they arrive, so a crash, reload
+// or out-of-memory kill mid-meeting leaves a recoverable session behind.
+// Finished sessions stay in the database and make up the recording library.
+const DB_NAME = 'audio-capture';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const CHUNKS = 'chunks';
+
+export type RecordingSessionStatus = 'recording' | 'finished';
+
+export interface RecordingTranscriptEntry {
+  text: string;
+  speaker?: string;
+  // Milliseconds from the start of this file; absent on older entries
+  startMs?: number;
+  endMs?: number;
+  language?: string;
+  provider?: TranscriptionProviderId;
+}
+
+// Position of one file within a recording split into rolling parts
+export interface RecordingPartInfo {
+  // Shared by every part of the same recording
+  seriesId: string;
+  seriesStartedAt: number;
+  partNumber: number; // 1-based
+  // Recorded time before this part started
+  startOffsetMs: number;
+}
+
+export interface RecordingSession {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  mimeType: string | null;
+  fileExtension: string;
+  chunkCount: number;
+  byteLength: number;
+  durationMs: number;
+  // 'recording' sessions were never stopped cleanly
+  status: RecordingSessionStatus;
+  // Library metadata; absent on sessions stored before the library existed
+  name?: string | null;
+  captureMode?: CaptureMode | null;
+  transcript?: RecordingTranscriptEntry[];
+  part?: RecordingPartInfo | null;
+  markers?: RecordingMarker[];
+  // Rate the audio was captured at, so exports can decode without resampling
+  sampleRate?: number | null;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  index: number;
+  data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) {
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHUNKS)) {
+        db.createObjectStore(CHUNKS, { keyPath: ['sessionId', 'index'] });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open recording database'));
+  });
+  // Let a later call retry instead of caching the failure
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Recording database transaction aborted'));
+  });
+}
+
+// Read-modify-write of one session record inside a single transaction
+async function updateSession(sessionId: string, update: (session: RecordingSession) => RecordingSession) {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const sessions = tx.objectStore(SESSIONS);
+  const session = await requestToPromise<RecordingSession | undefined>(sessions.get(sessionId));
+  if (session) {
+    sessions.put({ ...update(session), updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+}
+
+function chunkRange(sessionId: string): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, 0], [sessionId, Number.MAX_SAFE_INTEGER]);
+}
+
+export async function createRecordingSession(
+  meta: Pick<RecordingSession, 'mimeType' | 'fileExtension' | 'captureMode' | 'part' | 'sampleRate'>,
+): Promise<RecordingSession> {
+  const db = await openDatabase();
+  const now = Date.now();
+  const session: RecordingSession = {
+    id: crypto.randomUUID(),
+    startedAt: now,
+    updatedAt: now,
+    mimeType: meta.mimeType,
+    fileExtension: meta.fileExtension,
+    chunkCount: 0,
+    byteLength: 0,
+    durationMs: 0,
+    status: 'recording',
+    name: null,
+    captureMode: meta.captureMode ?? null,
+    transcript: [],
+    part: meta.part ?? null,
+    markers: [],
+    sampleRate: meta.sampleRate ?? null,
+  };
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put(session);
+  await transactionDone(tx);
+
+  // Ask the browser not to evict recordings under storage pressure; best effort only
+  void navigator.storage?.persist?.().catch(() => false);
+  return session;
+}
+
+// Stores one chunk and bumps the session counters in the same transaction, so
+// the session record never claims chunks that were not written.
+export async function appendRecordingChunk(sessionId: string, index: number, data: Blob, durationMs: number) {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, CHUNKS], 'readwrite');
+  const sessions = tx.objectStore(SESSIONS);
+  const chunk: StoredChunk = { sessionId, index, data };
+  tx.objectStore(CHUNKS).put(chunk);
+  const session = await requestToPromise<RecordingSession | undefined>(sessions.get(sessionId));
+  if (session) {
+    sessions.put({
+      ...session,
+      chunkCount: Math.max(session.chunkCount, index + 1),
+      byteLength: session.byteLength + data.size,
+      durationMs,
+      updatedAt: Date.now(),
+    });
+  }
+  await transactionDone(tx);
+}
+
+export async function finishRecordingSession(sessionId: string, durationMs?: number) {
+  await updateSession(sessionId, (session) => ({
+    ...session,
+    status: 'finished',
+    durationMs: durationMs ?? session.durationMs,
+  }));
+}
+
+export async function renameRecordingSession(sessionId: string, name: string) {
+  const trimmed = name.trim();
+  await updateSession(sessionId, (session) => ({ ...session, name: trimmed || null }));
+}
+
+export async function appendRecordingTranscript(sessionId: string, entries: RecordingTranscriptEntry[]) {
+  if (entries.length === 0) return;
+  await updateSession(sessionId, (session) => ({
+    ...session,
+    transcript: [...(session.transcript || []), ...entries],
+  }));
+}
+
+export async function appendRecordingMarker(sessionId: string, marker: RecordingMarker) {
+  await updateSession(sessionId, (session) => ({
+    ...session,
+    markers: [...(session.markers || []), marker],
+  }));
+}
+
+export async function listRecordingSessions(): Promise<RecordingSession[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS, 'readonly');
+  const sessions = await requestToPromise<RecordingSession[]>(tx.objectStore(SESSIONS).getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+// Reassembles the stored chunks in order. Blobs read back from IndexedDB are
+// disk-backed, so the result does not pull the whole recording into memory.
+export async function loadRecordingBlob(sessionId: string): Promise<Blob> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, CHUNKS], 'readonly');
+  const [session, chunks] = await Promise.all([
+    requestToPromise<RecordingSession | undefined>(tx.objectStore(SESSIONS).get(sessionId)),
+    requestToPromise<StoredChunk[]>(tx.objectStore(CHUNKS).getAll(chunkRange(sessionId))),
+  ]);
+  if (!session) {
+    throw new Error('Recording session not found');
+  }
+  return new Blob(
+    chunks.map((chunk) => chunk.data),
+    { type: session.mimeType || undefined },
+  );
+}
+
+export async function deleteRecordingSession(sessionId: string) {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS, CHUNKS], 'readwrite');
+  tx.objectStore(SESSIONS).delete(sessionId);
+  tx.objectStore(CHUNKS).delete(chunkRange(sessionId));
+  await transactionDone(tx);
+}
@@ -0,0 +1,133 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { createServer, type AddressInfo } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { openTranscriptionStream, type StreamingHypothesis } from './transcription';
+
+const MOCK_SERVER = fileURLToPath(new URL('../../whisper_server/mock_stream_server.py', import.meta.url));
+const SAMPLE_RATE = 16_000;
+const FRAME_SAMPLES = SAMPLE_RATE / 50;
+
+// Node 20 has no WebSocket global; ws implements the same interface
+vi.stubGlobal('WebSocket', WebSocket);
+
+const freePort = () =>
+  new Promise<number>((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+
+// Starts mock_stream_server.py and resolves once it listens
+async function startMock(): Promise<{ process: ChildProcess; baseUrl: string }> {
+  const port = await freePort();
+  const child = spawn('python3', [MOCK_SERVER, '--port', String(port)], { stdio: ['ignore', 'ignore', 'pipe'] });
+  await new Promise<void>((resolve, reject) => {
+    let output = '';
+    child.once('error', reject);
+    child.once('exit', (code) => reject(new Error(`Mock server exited with ${code}: ${output}`)));
+    child.stderr!.on('data', (data: Buffer) => {
+      output += data;
+      if (output.includes('mock streaming endpoint')) resolve();
+    });
+  });
+  return { process: child, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+// 20 ms frames of a tone at a speaking level, or of silence
+function frames(seconds: number, amplitude: number): Float32Array[] {
+  return Array.from({ length: Math.round((seconds * SAMPLE_RATE) / FRAME_SAMPLES) }, (_, frame) =>
+    Float32Array.from(
+      { length: FRAME_SAMPLES },
+      (_, i) => amplitude * Math.sin((2 * Math.PI * 220 * (frame * FRAME_SAMPLES + i)) / SAMPLE_RATE),
+    ),
+  );
+}
+
+describe('openTranscriptionStream', () => {
+  let mock: { process: ChildProcess; baseUrl: string };
+
+  beforeAll(async () => {
+    mock = await startMock();
+  });
+
+  afterAll(() => {
+    mock?.process.kill();
+  });
+
+  it('delivers interim hypotheses, then the final one for an utterance', async () => {
+    const hypotheses: StreamingHypothesis[] = [];
+    const onClose = vi.fn();
+    const stream = await openTranscriptionStream({
+      sampleRate: SAMPLE_RATE,
+      baseUrl: mock.baseUrl,
+      onHypothesis: (hypothesis) => hypotheses.push(hypothesis),
+      onClose,
+    });
+    [...frames(1.5, 0.3), ...frames(1, 0)].forEach((frame) => stream.sendPcm(frame));
+    await stream.finish();
+
+    const finals = hypotheses.filter((hypothesis) => hypothesis.isFinal);
+    expect(finals).toHaveLength(1);
+    expect(hypotheses.indexOf(finals[0])).toBe(hypotheses.length - 1);
+    expect(hypotheses.length).toBeGreaterThan(1);
+    expect(finals[0]).toMatchObject({ start: 0, end: 1.5 });
+    expect(finals[0].text).not.toBe('');
+    // Interims cover the same utterance, each reaching further than the last
+    const interims = hypotheses.slice(0, -1);
+    interims.forEach((interim, i) => {
+      expect(interim).toMatchObject({ isFinal: false, start: 0 });
+      if (i > 0) expect(interim.end).toBeGreaterThan(interims[i - 1].end);
+    });
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('finalises what it has heard on flush', async () => {
+    const hypotheses: StreamingHypothesis[] = [];
+    const stream = await openTranscriptionStream({
+      sampleRate: SAMPLE_RATE,
+      baseUrl: mock.baseUrl,
+      onHypothesis: (hypothesis) => hypotheses.push(hypothesis),
+    });
+    frames(1, 0.3).forEach((frame) => stream.sendPcm(frame));
+    stream.flush();
+    await vi.waitFor(() => expect(hypotheses.some((hypothesis) => hypothesis.isFinal)).toBe(true));
+    stream.close();
+
+    expect(hypotheses[hypotheses.length - 1]).toMatchObject({ isFinal: true, start: 0, end: 1 });
+  });
+
+  // The bundled Flask app answers /stream with 404, which is what sends live
+  // subtitles to HTTP segments
+  it('rejects without waiting when the server has no streaming endpoint', async () => {
+    const started = Date.now();
+    await expect(
+      openTranscriptionStream({ sampleRate: SAMPLE_RATE, baseUrl: `${mock.baseUrl}/v1`, onHypothesis: () => {} }),
+    ).rejects.toThrow(/Streaming endpoint unavailable/);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('rejects when nothing listens', async () => {
+    const port = await freePort();
+    await expect(
+      openTranscriptionStream({ sampleRate: SAMPLE_RATE, baseUrl: `http://127.0.0.1:${port}`, onHypothesis: () => {} }),
+    ).rejects.toThrow(/Streaming endpoint unavailable/);
+  });
+
+  it('reports a stream dropped mid-session, so the caller can fall back to HTTP', async () => {
+    const dropping = await startMock();
+    const onClose = vi.fn();
+    await openTranscriptionStream({
+      sampleRate: SAMPLE_RATE,
+      baseUrl: dropping.baseUrl,
+      onHypothesis: () => {},
+      onClose,
+    });
+    dropping.process.kill();
+    await vi.waitFor(() => expect(onClose).toHaveBeenCalledOnce());
+  });
+});
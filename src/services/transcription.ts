@@ -1,36 +1,287 @@
-const API_BASE = import.meta.env.VITE_WHISPER_BASE_URL || 'http://localhost:5005';
+import type { TranscriptionProviderId, TranscriptionTask } from '../types/audio.types';
+
+// Build-time default; the server URL can be changed at runtime in Settings
+export const DEFAULT_API_BASE = import.meta.env.VITE_WHISPER_BASE_URL || 'http://localhost:5005';
+const STREAM_URL_OVERRIDE = import.meta.env.VITE_WHISPER_STREAM_URL;
+const STREAM_OPEN_TIMEOUT_MS = 3000;
+const STREAM_FINISH_TIMEOUT_MS = 5000;
 
 export interface TranscriptionSegment {
   start?: number;
   end?: number;
   text: string;
+  speaker?: string;
+  // Position on the recording timeline in ms, filled in by the client
+  sessionStartMs?: number;
+  sessionEndMs?: number;
 }
 
 export interface TranscriptionResponse {
   text: string;
+  speaker?: string;
   detected_language?: string;
   duration?: number;
   segments?: TranscriptionSegment[];
+  // Span of the uploaded audio on the recording timeline, when it was recorded
+  sessionStartMs?: number;
+  sessionEndMs?: number;
+  // Filled in by the client: the upload or stream result this came from, and
+  // the engine that produced it
+  chunkId?: string;
+  provider?: TranscriptionProviderId;
+}
+
+// The server answered with an error status; `status` tells the upload queue
+// whether retrying can help
+export class TranscriptionHttpError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'TranscriptionHttpError';
+    this.status = status;
+  }
+}
+
+// The request never reached a server: it is down or restarting, or the browser
+// is offline. Retrying later can help without anything about the job changing.
+export class TranscriptionNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptionNetworkError';
+  }
+}
+
+// What to ask of the engine for a clip
+export interface TranscriptionOptions {
+  // ISO 639-1 code; absent to let the engine detect the language
+  language?: string;
+  task?: TranscriptionTask;
+  // Text the audio follows on from, such as the end of the previous segment
+  prompt?: string;
+  temperature?: number;
 }
 
-export async function transcribeBlob(blob: Blob): Promise<TranscriptionResponse> {
+export interface TranscriptionRequest extends TranscriptionOptions {
+  signal?: AbortSignal;
+}
+
+export interface AudioUploadOptions {
+  // Extra multipart fields sent along with the file
+  fields?: Record<string, string>;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+// Posts `blob` as the multipart `file` field and returns the JSON reply.
+// Error statuses throw TranscriptionHttpError.
+export async function postAudio(url: string, blob: Blob, { fields, headers, signal }: AudioUploadOptions = {}) {
   const form = new FormData();
   const ts = new Date().toISOString().replace(/[:.]/g, '-');
   const ext = inferExtensionFromMime(blob.type) || 'webm';
   form.append('file', blob, `segment-${ts}.${ext}`);
+  Object.entries(fields || {}).forEach(([name, value]) => form.append(name, value));
 
-  const res = await fetch(`${API_BASE}/transcribe`, {
-    method: 'POST',
-    body: form,
-  });
+  let res: Response;
+  try {
+    res = await fetch(url, { method: 'POST', body: form, headers, signal });
+  } catch (err) {
+    // An abort is the caller's doing, not an outage
+    if (signal?.aborted) throw err;
+    throw new TranscriptionNetworkError(err instanceof Error ? err.message : String(err));
+  }
 
   if (!res.ok) {
     const msg = await safeError(res);
-    throw new Error(msg || `HTTP ${res.status}`);
+    throw new TranscriptionHttpError(msg || `HTTP ${res.status}`, res.status);
   }
   return res.json();
 }
 
+// Transcribes a clip with the bundled Flask Whisper server
+export async function transcribeBlob(
+  blob: Blob,
+  { signal, language, task, prompt, temperature }: TranscriptionRequest = {},
+  baseUrl = DEFAULT_API_BASE,
+): Promise<TranscriptionResponse> {
+  const fields: Record<string, string> = {};
+  if (language) fields.language = language;
+  if (task) fields.task = task;
+  if (prompt) fields.prompt = prompt;
+  if (temperature != null) fields.temperature = String(temperature);
+  return postAudio(`${baseUrl}/transcribe`, blob, { fields, signal });
+}
+
+// VITE_WHISPER_STREAM_URL only applies while the server URL is the default
+const streamUrlFor = (baseUrl: string) =>
+  baseUrl === DEFAULT_API_BASE && STREAM_URL_OVERRIDE
+    ? STREAM_URL_OVERRIDE
+    : `${baseUrl.replace(/^http/, 'ws')}/stream`;
+
+export function withSpeaker(response: TranscriptionResponse, speaker: string): TranscriptionResponse {
+  return {
+    ...response,
+    speaker,
+    segments: response.segments?.map((segment) => ({ ...segment, speaker })),
+  };
+}
+
+// Places a response on the recording timeline. Segment times from the server
+// are seconds into the uploaded clip.
+export function anchorToSession(
+  response: TranscriptionResponse,
+  span: { startMs: number; endMs: number },
+): TranscriptionResponse {
+  return {
+    ...response,
+    sessionStartMs: span.startMs,
+    sessionEndMs: span.endMs,
+    segments: response.segments?.map((segment) => ({
+      ...segment,
+      sessionStartMs: segment.start != null ? span.startMs + segment.start * 1000 : undefined,
+      sessionEndMs: segment.end != null ? span.startMs + segment.end * 1000 : undefined,
+    })),
+  };
+}
+
+// Hypothesis from the streaming endpoint. Interim text may still change; a
+// final hypothesis settles the audio it covers. Times are seconds of audio
+// since the stream started.
+export interface StreamingHypothesis {
+  text: string;
+  isFinal: boolean;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionStream {
+  sendPcm: (samples: Float32Array) => void;
+  // Asks the server to finalise what it has heard so far
+  flush: () => void;
+  // Ends the audio and resolves once the server has sent its last results
+  finish: () => Promise<void>;
+  close: () => void;
+}
+
+export interface TranscriptionStreamOptions {
+  sampleRate: number;
+  // Whisper server to stream to; DEFAULT_API_BASE when absent
+  baseUrl?: string;
+  language?: string;
+  task?: TranscriptionTask;
+  onHypothesis: (hypothesis: StreamingHypothesis) => void;
+  // The server closed or dropped the stream before finish()
+  onClose?: (reason: string) => void;
+}
+
+// Streams mono PCM over a WebSocket to `${baseUrl}/stream` (or
+// VITE_WHISPER_STREAM_URL). The client sends {type:'start'}, with the language
+// and task when set, followed by binary 16-bit little-endian frames, plus
+// {type:'flush'} and {type:'stop'}; the server answers with
+// {type:'interim'|'final', text, start, end}. Rejects when the endpoint cannot
+// be reached, so callers can fall back to transcribeBlob.
+export function openTranscriptionStream({
+  sampleRate,
+  baseUrl = DEFAULT_API_BASE,
+  language,
+  task,
+  onHypothesis,
+  onClose,
+}: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+  return new Promise((resolve, reject) => {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(streamUrlFor(baseUrl));
+    } catch (err) {
+      reject(err);
+      return;
+    }
+    socket.binaryType = 'arraybuffer';
+    let opened = false;
+    let finishing = false;
+    let finished: (() => void) | null = null;
+    const openTimer = setTimeout(() => {
+      reject(new Error('Streaming endpoint did not respond'));
+      socket.close();
+    }, STREAM_OPEN_TIMEOUT_MS);
+
+    const sendControl = (type: 'flush' | 'stop') => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type }));
+    };
+    const stream: TranscriptionStream = {
+      sendPcm: (samples) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(encodePcm16(samples));
+      },
+      flush: () => sendControl('flush'),
+      finish: () => {
+        finishing = true;
+        if (socket.readyState === WebSocket.CLOSED) return Promise.resolve();
+        return new Promise<void>((done) => {
+          const finishTimer = setTimeout(() => socket.close(), STREAM_FINISH_TIMEOUT_MS);
+          finished = () => {
+            clearTimeout(finishTimer);
+            done();
+          };
+          sendControl('stop');
+        });
+      },
+      close: () => {
+        finishing = true;
+        socket.close();
+      },
+    };
+
+    socket.onopen = () => {
+      clearTimeout(openTimer);
+      opened = true;
+      socket.send(JSON.stringify({ type: 'start', sample_rate: sampleRate, encoding: 'pcm_s16le', language, task }));
+      resolve(stream);
+    };
+    socket.onmessage = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      let message: { type?: string; text?: string; start?: number; end?: number; message?: string } | null;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message?.type === 'interim' || message?.type === 'final') {
+        onHypothesis({
+          text: message.text || '',
+          isFinal: message.type === 'final',
+          start: Number(message.start) || 0,
+          end: Number(message.end) || 0,
+        });
+      } else if (message?.type === 'error') {
+        console.warn('Streaming transcription error:', message.message);
+      }
+    };
+    socket.onerror = () => {
+      if (opened) return;
+      clearTimeout(openTimer);
+      reject(new Error('Streaming endpoint unavailable'));
+    };
+    socket.onclose = (event) => {
+      clearTimeout(openTimer);
+      if (!opened) {
+        reject(new Error(`Streaming endpoint unavailable (code ${event.code})`));
+        return;
+      }
+      finished?.();
+      if (!finishing) onClose?.(event.reason || `connection closed (code ${event.code})`);
+    };
+  });
+}
+
+const encodePcm16 = (samples: Float32Array): ArrayBuffer => {
+  const view = new DataView(new ArrayBuffer(samples.length * 2));
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+  return view.buffer;
+};
+
 function inferExtensionFromMime(mime: string): string | null {
   if (!mime) return null;
   if (mime.includes('wav')) return 'wav';
@@ -43,7 +294,8 @@ function inferExtensionFromMime(mime: string): string | null {
 async function safeError(res: Response): Promise<string | null> {
   try {
     const data = await res.json();
-    return data?.error || null;
+    // OpenAI-style servers nest the message: {error: {message}}
+    return data?.error?.message || (typeof data?.error === 'string' ? data.error : null);
   } catch {
     try {
       const text = await res.text();
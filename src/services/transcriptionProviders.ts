@@ -0,0 +1,311 @@
+// Transcription engines the app can talk to. Each adapter turns its engine's
+// request and response format into TranscriptionResponse and, where the engine
+// can stream, into a TranscriptionStream, so the recorder does not need to know
+// which one is in use.
+//
+// - whisper-server: the bundled Flask server (POST /transcribe, WebSocket /stream)
+// - openai-compatible: POST /v1/audio/transcriptions, as served by
+//   faster-whisper-server, LocalAI and OpenAI itself
+// - whisper-cpp: the whisper.cpp example server (POST /inference)
+// - web-speech: the browser's SpeechRecognition. It listens to the default
+//   microphone, not to the captured audio, and only works live.
+
+import type { TranscriptionProviderId } from '../types/audio.types';
+import {
+  DEFAULT_API_BASE,
+  TranscriptionHttpError,
+  openTranscriptionStream,
+  postAudio,
+  transcribeBlob,
+  type TranscriptionRequest,
+  type TranscriptionResponse,
+  type TranscriptionSegment,
+  type TranscriptionStream,
+  type TranscriptionStreamOptions,
+} from './transcription';
+
+const OPENAI_BASE_URL = import.meta.env.VITE_OPENAI_BASE_URL || 'http://localhost:8000';
+const OPENAI_MODEL = import.meta.env.VITE_OPENAI_MODEL || 'whisper-1';
+const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY || '';
+const WHISPER_CPP_URL = import.meta.env.VITE_WHISPER_CPP_URL || 'http://localhost:8080';
+const SPEECH_FINISH_TIMEOUT_MS = 3000;
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  label: string;
+  // Server the engine runs on; absent for engines inside the browser
+  serverUrl?: string;
+  // Resolves when the server answers, rejects when it cannot be reached
+  checkHealth?: (signal?: AbortSignal) => Promise<void>;
+  // Transcribes a finished clip; absent for engines that only listen live
+  transcribe?: (blob: Blob, request?: TranscriptionRequest) => Promise<TranscriptionResponse>;
+  // Streams live audio with interim results, for engines that can
+  openStream?: (options: TranscriptionStreamOptions) => Promise<TranscriptionStream>;
+  // The engine hears the microphone itself instead of the audio sent to it
+  listensToMicrophone?: boolean;
+}
+
+export const TRANSCRIPTION_PROVIDERS: { id: TranscriptionProviderId; label: string }[] = [
+  { id: 'whisper-server', label: 'Whisper server' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible' },
+  { id: 'whisper-cpp', label: 'whisper.cpp' },
+  { id: 'web-speech', label: 'Browser speech (mic only)' },
+];
+
+// Build-time defaults for engines that run on a server
+export const DEFAULT_SERVER_URLS: Partial<Record<TranscriptionProviderId, string>> = {
+  'whisper-server': DEFAULT_API_BASE,
+  'openai-compatible': OPENAI_BASE_URL,
+  'whisper-cpp': WHISPER_CPP_URL,
+};
+
+const labelOf = (id: TranscriptionProviderId) => TRANSCRIPTION_PROVIDERS.find((p) => p.id === id)?.label || id;
+
+// verbose_json as returned by OpenAI-compatible servers and whisper.cpp
+interface VerboseTranscription {
+  text?: string;
+  language?: string;
+  duration?: number | string;
+  segments?: { start?: number; end?: number; t0?: number; t1?: number; text?: string }[];
+}
+
+function fromVerboseJson(data: VerboseTranscription): TranscriptionResponse {
+  const segments: TranscriptionSegment[] | undefined = data.segments?.map((segment) => ({
+    // whisper.cpp reports t0/t1 in units of 10 ms
+    start: segment.start ?? (segment.t0 != null ? segment.t0 / 100 : undefined),
+    end: segment.end ?? (segment.t1 != null ? segment.t1 / 100 : undefined),
+    text: (segment.text || '').trim(),
+  }));
+  const duration = Number(data.duration);
+  return {
+    text: (data.text || segments?.map((segment) => segment.text).join(' ') || '').trim(),
+    detected_language: data.language,
+    duration: Number.isFinite(duration) ? duration : undefined,
+    segments,
+  };
+}
+
+// Any HTTP answer below 500 means the server is up. LocalAI, for one, has no
+// /health route, and a 404 from it still proves it is running.
+const pingHealth = async (url: string, signal?: AbortSignal) => {
+  const res = await fetch(url, { signal, cache: 'no-store' });
+  if (res.status >= 500) throw new TranscriptionHttpError(`HTTP ${res.status}`, res.status);
+};
+
+const whisperServerProvider = (serverUrl: string): TranscriptionProvider => ({
+  id: 'whisper-server',
+  label: labelOf('whisper-server'),
+  serverUrl,
+  checkHealth: (signal) => pingHealth(`${serverUrl}/health`, signal),
+  transcribe: (blob, request) => transcribeBlob(blob, request, serverUrl),
+  openStream: (options) => openTranscriptionStream({ ...options, baseUrl: serverUrl }),
+});
+
+// Translation has its own endpoint, which always produces English
+const openAiCompatibleProvider = (serverUrl: string): TranscriptionProvider => ({
+  id: 'openai-compatible',
+  label: labelOf('openai-compatible'),
+  serverUrl,
+  checkHealth: (signal) => pingHealth(`${serverUrl}/health`, signal),
+  transcribe: async (blob, { signal, language, task, prompt, temperature } = {}) => {
+    const translate = task === 'translate';
+    const fields: Record<string, string> = { model: OPENAI_MODEL, response_format: 'verbose_json' };
+    if (language && !translate) fields.language = language;
+    if (prompt) fields.prompt = prompt;
+    if (temperature != null) fields.temperature = String(temperature);
+    return fromVerboseJson(
+      await postAudio(`${serverUrl}/v1/audio/${translate ? 'translations' : 'transcriptions'}`, blob, {
+        fields,
+        headers: OPENAI_API_KEY ? { Authorization: `Bearer ${OPENAI_API_KEY}` } : undefined,
+        signal,
+      }),
+    );
+  },
+});
+
+const whisperCppProvider = (serverUrl: string): TranscriptionProvider => ({
+  id: 'whisper-cpp',
+  label: labelOf('whisper-cpp'),
+  serverUrl,
+  checkHealth: (signal) => pingHealth(`${serverUrl}/health`, signal),
+  transcribe: async (blob, { signal, language, task, prompt, temperature } = {}) => {
+    const fields: Record<string, string> = {
+      response_format: 'verbose_json',
+      language: language || 'auto',
+      temperature: String(temperature ?? 0),
+    };
+    if (task === 'translate') fields.translate = 'true';
+    if (prompt) fields.prompt = prompt;
+    return fromVerboseJson(await postAudio(`${serverUrl}/inference`, blob, { fields, signal }));
+  },
+});
+
+// Just the parts of the Web Speech API used here; TypeScript's DOM library
+// does not declare it
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onstart: (() => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onresult:
+    | ((event: {
+        resultIndex: number;
+        results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+      }) => void)
+    | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const speechRecognitionConstructor = (): SpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const scope = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return scope.SpeechRecognition || scope.webkitSpeechRecognition || null;
+};
+
+// Recognition runs while audio is being sent: sendPcm() (re)starts it and
+// flush() stops it, so paused stretches are not transcribed. Audio sent is
+// only counted, which gives hypotheses times on the same stream clock as the
+// other engines.
+function openWebSpeechStream({
+  sampleRate,
+  language,
+  onHypothesis,
+  onClose,
+}: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+  const Recognition = speechRecognitionConstructor();
+  if (!Recognition) return Promise.reject(new Error('This browser has no speech recognition'));
+
+  return new Promise((resolve, reject) => {
+    const recognition = new Recognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    // The browser cannot detect the language or translate
+    recognition.lang = language || navigator.language || 'en-US';
+    let started = false;
+    let listening = true;
+    let running = false;
+    let closed = false;
+    let finished: (() => void) | null = null;
+    let sentSamples = 0;
+    let utteranceStart: number | null = null;
+    const seconds = () => sentSamples / sampleRate;
+
+    const start = () => {
+      if (running || closed) return;
+      try {
+        recognition.start();
+        running = true;
+      } catch {
+        // Still ending; onend starts it again
+      }
+    };
+    const stream: TranscriptionStream = {
+      sendPcm: (samples) => {
+        sentSamples += samples.length;
+        if (!listening) {
+          listening = true;
+          start();
+        }
+      },
+      flush: () => {
+        listening = false;
+        recognition.stop();
+      },
+      finish: () =>
+        new Promise<void>((done) => {
+          if (closed) {
+            done();
+            return;
+          }
+          closed = true;
+          const timer = setTimeout(() => {
+            recognition.abort();
+            done();
+          }, SPEECH_FINISH_TIMEOUT_MS);
+          finished = () => {
+            clearTimeout(timer);
+            done();
+          };
+          recognition.stop();
+        }),
+      close: () => {
+        closed = true;
+        recognition.abort();
+      },
+    };
+
+    recognition.onstart = () => {
+      if (started) return;
+      started = true;
+      resolve(stream);
+    };
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        utteranceStart ??= seconds();
+        onHypothesis({
+          text: result[0].transcript.trim(),
+          isFinal: result.isFinal,
+          start: utteranceStart,
+          end: Math.max(utteranceStart, seconds()),
+        });
+        if (result.isFinal) utteranceStart = null;
+      }
+    };
+    recognition.onerror = ({ error }) => {
+      // Silence and our own stop() are not failures
+      if (error === 'no-speech' || error === 'aborted') return;
+      if (!started) {
+        closed = true;
+        reject(new Error(`Speech recognition failed: ${error}`));
+      } else if (!closed) {
+        closed = true;
+        recognition.abort();
+        onClose?.(error);
+      }
+    };
+    recognition.onend = () => {
+      running = false;
+      if (finished) {
+        finished();
+        return;
+      }
+      // Chrome ends continuous recognition after a stretch of silence
+      if (listening) start();
+    };
+    start();
+  });
+}
+
+const webSpeechProvider: TranscriptionProvider = {
+  id: 'web-speech',
+  label: labelOf('web-speech'),
+  openStream: openWebSpeechStream,
+  listensToMicrophone: true,
+};
+
+// Provider for `id`, talking to `serverUrl` or the engine's default server
+export function createTranscriptionProvider(id: TranscriptionProviderId, serverUrl?: string): TranscriptionProvider {
+  const url = (serverUrl || DEFAULT_SERVER_URLS[id] || DEFAULT_API_BASE).replace(/\/+$/, '');
+  switch (id) {
+    case 'openai-compatible':
+      return openAiCompatibleProvider(url);
+    case 'whisper-cpp':
+      return whisperCppProvider(url);
+    case 'web-speech':
+      return webSpeechProvider;
+    default:
+      return whisperServerProvider(url);
+  }
+}
+
+export const isWebSpeechAvailable = () => speechRecognitionConstructor() !== null;
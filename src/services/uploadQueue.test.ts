@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { TranscriptionHttpError, TranscriptionNetworkError } from './transcription';
+import { UploadQueue, type UploadQueueOptions } from './uploadQueue';
+
+const newQueue = (options: UploadQueueOptions = {}) =>
+  new UploadQueue({ retryBaseMs: 1, retryMaxMs: 5, timeoutMs: 1000, ...options });
+
+// A job whose upload settles when the test says so
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (err: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('UploadQueue', () => {
+  it('retries an error thrown by the job itself and fails it after maxAttempts', async () => {
+    const onFailure = vi.fn();
+    const queue = newQueue({ maxAttempts: 3, onFailure });
+    const run = vi.fn(async () => {
+      throw new TypeError("Cannot read properties of undefined (reading 'text')");
+    });
+    queue.enqueue({ run, deliver: vi.fn() });
+
+    await vi.waitFor(() => expect(onFailure).toHaveBeenCalledOnce());
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(onFailure.mock.calls[0][0]).toBeInstanceOf(TypeError);
+    expect(queue.stats).toEqual({ backlog: 0, failed: 1, offline: false });
+    queue.dispose();
+  });
+
+  it('fails a client error without retrying', async () => {
+    const onFailure = vi.fn();
+    const queue = newQueue({ onFailure });
+    const run = vi.fn(async () => {
+      throw new TranscriptionHttpError('Unsupported file', 415);
+    });
+    queue.enqueue({ run, deliver: vi.fn() });
+
+    await vi.waitFor(() => expect(onFailure).toHaveBeenCalledOnce());
+    expect(run).toHaveBeenCalledOnce();
+    queue.dispose();
+  });
+
+  it('parks the job while offline and delivers it once an upload gets through', async () => {
+    const onFailure = vi.fn();
+    const deliver = vi.fn();
+    const queue = newQueue({ maxAttempts: 1, retryBaseMs: 60_000, retryMaxMs: 60_000, onFailure });
+    let online = false;
+    const run = vi.fn(async () => {
+      if (!online) throw new TranscriptionNetworkError('Failed to fetch');
+      return 'hello';
+    });
+    queue.enqueue({ run, deliver });
+
+    await vi.waitFor(() => expect(queue.stats.offline).toBe(true));
+    // Not the job's fault, so it is neither failed nor counted against maxAttempts
+    expect(queue.stats).toEqual({ backlog: 1, failed: 0, offline: true });
+    expect(onFailure).not.toHaveBeenCalled();
+
+    online = true;
+    queue.retryNow();
+    await vi.waitFor(() => expect(deliver).toHaveBeenCalledWith('hello'));
+    expect(queue.stats).toEqual({ backlog: 0, failed: 0, offline: false });
+    queue.dispose();
+  });
+
+  it('delivers in queue order, carrying on past a job that failed', async () => {
+    const events: string[] = [];
+    const queue = newQueue({ concurrency: 3, onFailure: (err) => events.push(`failed: ${err.message}`) });
+    const first = deferred<string>();
+    const second = deferred<string>();
+    const third = deferred<string>();
+    [first, second, third].forEach(({ promise }) =>
+      queue.enqueue({ run: () => promise, deliver: (text) => events.push(text) }),
+    );
+
+    third.resolve('third');
+    second.resolve('second');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    // Held back behind the first upload
+    expect(events).toEqual([]);
+
+    first.reject(new TranscriptionHttpError('Bad request', 400));
+    await vi.waitFor(() => expect(events).toHaveLength(3));
+    expect(events).toEqual(['failed: Bad request', 'second', 'third']);
+    queue.dispose();
+  });
+});
@@ -0,0 +1,280 @@
+// Runs transcription uploads with bounded concurrency, a timeout per attempt,
+// and exponential-backoff retries. Results are delivered strictly in the order
+// jobs were queued. A slow upload holds back the results queued after it,
+// until it succeeds or finally fails.
+//
+// A network error (a TranscriptionNetworkError: the server is down or
+// restarting, or the browser is offline) does not use up a job's attempts. Instead the queue goes offline:
+// it keeps every job as a backlog and probes with one upload at a time, backing
+// off, until an upload gets through or the browser reports it is online again.
+
+import { TranscriptionHttpError, TranscriptionNetworkError } from './transcription';
+
+export interface UploadJob<T> {
+  run: (signal: AbortSignal) => Promise<T>;
+  // Called in queue order once the job succeeds
+  deliver: (result: T) => void;
+}
+
+export interface UploadQueueStats {
+  // Jobs waiting, uploading or retrying
+  backlog: number;
+  // Jobs given up on since the last resetFailed()
+  failed: number;
+  offline: boolean;
+}
+
+export interface UploadQueueOptions {
+  concurrency?: number;
+  timeoutMs?: number;
+  maxAttempts?: number;
+  retryBaseMs?: number;
+  retryMaxMs?: number;
+  // Waiting jobs beyond this are failed, oldest first, to bound memory
+  maxBacklog?: number;
+  // Called in queue order for each job given up on
+  onFailure?: (error: Error) => void;
+  onChange?: (stats: UploadQueueStats) => void;
+}
+
+interface QueuedJob {
+  job: UploadJob<unknown>;
+  state: 'waiting' | 'running' | 'done' | 'failed';
+  attempts: number;
+  readyAt: number;
+  controller: AbortController | null;
+  result?: unknown;
+  error?: Error;
+}
+
+class UploadTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`No response within ${ms / 1000} s`);
+    this.name = 'UploadTimeoutError';
+  }
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Only a failed fetch counts; any other error, TypeErrors from a bad response
+// included, is the job's own and goes through the retries
+const isNetworkError = (err: unknown) => err instanceof TranscriptionNetworkError;
+
+// Client errors will not change on a retry; anything else, such as a timeout,
+// a server error or a response that could not be read, might
+const isRetryable = (err: unknown) =>
+  !(err instanceof TranscriptionHttpError) || err.status >= 500 || err.status === 408 || err.status === 429;
+
+export class UploadQueue {
+  private readonly concurrency: number;
+  private readonly timeoutMs: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly retryMaxMs: number;
+  private readonly maxBacklog: number;
+  private readonly onFailure?: (error: Error) => void;
+  private readonly onChange?: (stats: UploadQueueStats) => void;
+  // Every job not yet delivered, in queue order
+  private jobs: QueuedJob[] = [];
+  private failed = 0;
+  private offline = isOffline();
+  private offlineRetryAt = 0;
+  private offlineDelayMs = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+
+  constructor({
+    concurrency = 2,
+    timeoutMs = 30_000,
+    maxAttempts = 4,
+    retryBaseMs = 1000,
+    retryMaxMs = 30_000,
+    maxBacklog = 100,
+    onFailure,
+    onChange,
+  }: UploadQueueOptions = {}) {
+    this.concurrency = Math.max(1, concurrency);
+    this.timeoutMs = timeoutMs;
+    this.maxAttempts = Math.max(1, maxAttempts);
+    this.retryBaseMs = retryBaseMs;
+    this.retryMaxMs = retryMaxMs;
+    this.maxBacklog = maxBacklog;
+    this.onFailure = onFailure;
+    this.onChange = onChange;
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
+  }
+
+  get stats(): UploadQueueStats {
+    return {
+      backlog: this.jobs.filter((q) => q.state === 'waiting' || q.state === 'running').length,
+      failed: this.failed,
+      offline: this.offline,
+    };
+  }
+
+  enqueue<T>(job: UploadJob<T>) {
+    if (this.disposed) return;
+    this.jobs.push({
+      job: job as UploadJob<unknown>,
+      state: 'waiting',
+      attempts: 0,
+      readyAt: 0,
+      controller: null,
+    });
+    const waiting = this.jobs.filter((q) => q.state === 'waiting');
+    for (const queued of waiting.slice(0, Math.max(0, waiting.length - this.maxBacklog))) {
+      this.fail(queued, new Error('Upload backlog is full'));
+    }
+    this.deliverSettled();
+    this.pump();
+    this.notify();
+  }
+
+  resetFailed() {
+    this.failed = 0;
+    this.notify();
+  }
+
+  // Aborts running uploads and drops everything queued
+  dispose() {
+    this.disposed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.jobs.forEach((q) => q.controller?.abort());
+    this.jobs = [];
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+  }
+
+  // Skips the offline backoff, e.g. once the server is known to be back
+  retryNow() {
+    this.offlineRetryAt = 0;
+    this.pump();
+  }
+
+  private readonly handleOnline = () => this.retryNow();
+
+  private readonly handleOffline = () => {
+    this.offline = true;
+    this.notify();
+  };
+
+  private pump() {
+    if (this.disposed) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    const now = Date.now();
+    let running = this.jobs.filter((q) => q.state === 'running').length;
+    // Offline, a single upload probes whether the server is back
+    const limit = this.offline ? (now >= this.offlineRetryAt ? 1 : 0) : this.concurrency;
+    let nextReadyAt = this.offline && limit === 0 ? this.offlineRetryAt : Infinity;
+    for (const queued of this.jobs) {
+      if (queued.state !== 'waiting') continue;
+      if (queued.readyAt > now) {
+        nextReadyAt = Math.min(nextReadyAt, queued.readyAt);
+      } else if (running < limit) {
+        running++;
+        this.start(queued);
+      }
+    }
+    if (nextReadyAt !== Infinity && this.jobs.some((q) => q.state === 'waiting')) {
+      this.timer = setTimeout(() => this.pump(), Math.max(0, nextReadyAt - now));
+    }
+  }
+
+  private start(queued: QueuedJob) {
+    queued.state = 'running';
+    queued.attempts++;
+    const controller = new AbortController();
+    queued.controller = controller;
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+
+    queued.job
+      .run(controller.signal)
+      .then(
+        (result) => {
+          queued.state = 'done';
+          queued.result = result;
+          if (this.offline) {
+            this.offline = false;
+            this.offlineDelayMs = 0;
+          }
+        },
+        (err: unknown) => {
+          if (this.disposed) return;
+          this.retryOrFail(queued, timedOut ? new UploadTimeoutError(this.timeoutMs) : err);
+        },
+      )
+      .finally(() => {
+        clearTimeout(timeout);
+        queued.controller = null;
+        if (this.disposed) return;
+        this.deliverSettled();
+        this.pump();
+        this.notify();
+      });
+  }
+
+  private retryOrFail(queued: QueuedJob, err: unknown) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    if (isNetworkError(error)) {
+      // Not the job's fault; keep it and wait for the server to come back
+      queued.attempts--;
+      queued.state = 'waiting';
+      if (!this.offline || Date.now() >= this.offlineRetryAt) {
+        this.offlineDelayMs = Math.min(
+          this.retryMaxMs,
+          this.offlineDelayMs ? this.offlineDelayMs * 2 : this.retryBaseMs,
+        );
+        this.offlineRetryAt = Date.now() + this.offlineDelayMs;
+      }
+      this.offline = true;
+      return;
+    }
+    if (isRetryable(error) && queued.attempts < this.maxAttempts) {
+      queued.state = 'waiting';
+      queued.readyAt = Date.now() + this.backoffMs(queued.attempts);
+      return;
+    }
+    this.fail(queued, error);
+  }
+
+  // Exponential with jitter, so parallel retries do not hit the server together
+  private backoffMs(attempts: number): number {
+    const ceiling = Math.min(this.retryMaxMs, this.retryBaseMs * 2 ** (attempts - 1));
+    return ceiling / 2 + (Math.random() * ceiling) / 2;
+  }
+
+  private fail(queued: QueuedJob, error: Error) {
+    queued.state = 'failed';
+    queued.error = error;
+    this.failed++;
+  }
+
+  // Hands over results from the front of the queue up to the first job that
+  // has not settled yet
+  private deliverSettled() {
+    while (this.jobs.length > 0 && (this.jobs[0].state === 'done' || this.jobs[0].state === 'failed')) {
+      const queued = this.jobs.shift()!;
+      try {
+        if (queued.state === 'done') queued.job.deliver(queued.result);
+        else this.onFailure?.(queued.error!);
+      } catch (err) {
+        console.warn('Transcription result could not be delivered', err);
+      }
+    }
+  }
+
+  private notify() {
+    this.onChange?.(this.stats);
+  }
+}
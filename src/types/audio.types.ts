@@ -5,6 +5,25 @@ export interface AudioCaptureState {
   recordingStatus: 'idle' | 'recording' | 'paused';
   error: string | null;
   stream: MediaStream | null;
+  mixedStream: MediaStream | null;
+  // Mode the running capture was started with
+  captureMode: CaptureMode | null;
+  hasMicrophone: boolean;
+  // Speaker label per channel of mixedStream when sources are kept apart
+  channelLabels: string[] | null;
+  systemGain: number;
+  microphoneGain: number;
+}
+
+export interface MicrophoneOptions {
+  enabled: boolean;
+  deviceId?: string;
+  separateChannels?: boolean;
+}
+
+export interface MicrophoneDevice {
+  deviceId: string;
+  label: string;
 }
 
 export interface DisplayMediaOptions {
@@ -50,6 +69,9 @@ export type CaptureMode = 'system' | 'tab';
 
 export type RecordingFormat = 'webm_opus' | 'webm' | 'mp4_aac' | 'mp3';
 
+// Target for downloading a finished recording; 'original' is the MediaRecorder output as-is
+export type ExportFormat = 'original' | 'mp3' | 'wav_16' | 'wav_24' | 'wav_float' | 'flac_16' | 'flac_24';
+
 export interface RecordingFormatInfo {
   format: RecordingFormat;
   label: string;
@@ -59,6 +81,68 @@ export interface RecordingFormatInfo {
   defaultBitRate: number; // bits per second
 }
 
+export interface RecordingSettings {
+  format: RecordingFormat;
+  bitRate: number; // bits per second
+  // Rolling output: close the file and start the next part after this many
+  // minutes or megabytes; 0 or absent disables that limit
+  splitMinutes?: number;
+  splitMegabytes?: number;
+}
+
+// What voice-activated recording does once the hangover of silence runs out:
+// 'stop' finishes the recording, 'compress' pauses it until audio returns so
+// long silences shrink to the hangover length inside one file
+export type SilenceAction = 'stop' | 'compress';
+
+export interface VoiceActivationSettings {
+  enabled: boolean;
+  thresholdDb: number; // dBFS level that counts as audio
+  hangoverMs: number;
+  silenceAction: SilenceAction;
+}
+
+// How HTTP live subtitles cut the tapped audio into uploads: at pauses found by
+// voice activity detection, or every segmentDurationSec regardless of content
+export type SegmentationMode = 'pauses' | 'fixed';
+
+export interface SegmentationSettings {
+  mode: SegmentationMode;
+  // Pause-mode bounds; a segment only ends at a pause once it is minSegmentSec long
+  minSegmentSec: number;
+  maxSegmentSec: number;
+}
+
+// Engine that turns audio into text; see src/services/transcriptionProviders.ts
+export type TranscriptionProviderId = 'whisper-server' | 'openai-compatible' | 'whisper-cpp' | 'web-speech';
+
+// 'translate' turns speech in any language into English text
+export type TranscriptionTask = 'transcribe' | 'translate';
+
+export interface TranscriptionSettings {
+  provider: TranscriptionProviderId;
+  // Server per engine chosen in Settings; the build-time default when absent
+  serverUrls: Partial<Record<TranscriptionProviderId, string>>;
+  // ISO 639-1 code, or 'auto' to let the engine detect it
+  language: string;
+  task: TranscriptionTask;
+  // Names and terms to spell, sent ahead of the previous segment's text
+  prompt: string;
+  // 0 to 1; null keeps the engine's default
+  temperature: number | null;
+}
+
+// Named point in a recording, relative to the start of its file
+export interface RecordingMarker {
+  id: string;
+  label: string;
+  timeMs: number;
+}
+
+export type MarkerExportFormat = 'vtt' | 'json';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'txt' | 'json' | 'md';
+
 export interface CaptureError {
   type: 'permission-denied' | 'no-audio-track' | 'browser-unsupported' | 'unknown';
   message: string;
@@ -69,11 +153,19 @@ export interface TranscriptionSegment {
   start?: number;
   end?: number;
   text: string;
+  speaker?: string;
+  // Position on the recording timeline in ms, filled in by the client
+  sessionStartMs?: number;
+  sessionEndMs?: number;
 }
 
 export interface TranscriptionResponse {
   text: string;
+  speaker?: string;
   detected_language?: string;
   duration?: number;
   segments?: TranscriptionSegment[];
+  // Span of the uploaded audio on the recording timeline, when it was recorded
+  sessionStartMs?: number;
+  sessionEndMs?: number;
 }
@@ -1,4 +1,13 @@
+import { MP3_SAMPLE_RATES } from './mp3Encoder';
+import { quantizePcm, type FlacBitDepth } from './flacEncoder';
+import type { AudioEncodeRequest, AudioEncoderWorkerMessage } from '../workers/audioEncoder.worker';
+
+export type WavSampleFormat = 'int16' | 'int24' | 'float32';
+
 const TARGET_SAMPLE_RATE = 16000;
+const SILENCE_PEAK = 0.01;
+// Plenty for a waveform a few thousand pixels wide
+const WAVEFORM_SAMPLE_RATE = 8000;
 
 const textEncoder = new TextEncoder();
 
@@ -7,37 +16,96 @@ const writeString = (view: DataView, offset: number, str: string) => {
   bytes.forEach((byte, index) => view.setUint8(offset + index, byte));
 };
 
-const floatTo16BitPCM = (output: DataView, offset: number, input: Float32Array) => {
-  for (let i = 0; i < input.length; i++) {
-    const clamped = Math.max(-1, Math.min(1, input[i]));
-    output.setInt16(offset + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
-  }
+const WAV_BYTES_PER_SAMPLE: Record<WavSampleFormat, number> = { int16: 2, int24: 3, float32: 4 };
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Writes interleaved samples after quantizing each channel once up front
+const writeInterleaved = (view: DataView, offset: number, channels: Float32Array[], sampleFormat: WavSampleFormat) => {
+  const bytesPerSample = WAV_BYTES_PER_SAMPLE[sampleFormat];
+  const stride = bytesPerSample * channels.length;
+  channels.forEach((channel, index) => {
+    let position = offset + index * bytesPerSample;
+    if (sampleFormat === 'float32') {
+      for (let i = 0; i < channel.length; i++, position += stride) view.setFloat32(position, channel[i], true);
+      return;
+    }
+    const pcm = quantizePcm(channel, bytesPerSample * 8);
+    for (let i = 0; i < pcm.length; i++, position += stride) {
+      if (sampleFormat === 'int16') {
+        view.setInt16(position, pcm[i], true);
+      } else {
+        view.setUint8(position, pcm[i] & 0xff);
+        view.setInt16(position + 1, pcm[i] >> 8, true);
+      }
+    }
+  });
 };
 
-const encodeWavBuffer = (audioBuffer: AudioBuffer): ArrayBuffer => {
-  const channelData = audioBuffer.getChannelData(0);
-  const byteLength = channelData.length * 2;
-  const buffer = new ArrayBuffer(44 + byteLength);
+// Encodes planar PCM as a RIFF/WAVE file at the given rate without mixing down.
+// Float data gets the 'fact' chunk the spec requires, and more than two channels
+// use WAVE_FORMAT_EXTENSIBLE so players know the layout.
+export const encodeWav = (
+  channels: Float32Array[],
+  sampleRate: number,
+  sampleFormat: WavSampleFormat = 'int16',
+): ArrayBuffer => {
+  const bytesPerSample = WAV_BYTES_PER_SAMPLE[sampleFormat];
+  const isFloat = sampleFormat === 'float32';
+  const extensible = channels.length > 2;
+  const frames = channels[0]?.length || 0;
+  const blockAlign = bytesPerSample * channels.length;
+  const dataLength = frames * blockAlign;
+  const fmtLength = extensible ? 40 : isFloat ? 18 : 16;
+  const factLength = isFloat ? 12 : 0;
+  const headerLength = 12 + 8 + fmtLength + factLength + 8;
+  const buffer = new ArrayBuffer(headerLength + dataLength);
   const view = new DataView(buffer);
+  const formatTag = isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
 
   writeString(view, 0, 'RIFF');
-  view.setUint32(4, 36 + byteLength, true);
+  view.setUint32(4, headerLength - 8 + dataLength, true);
   writeString(view, 8, 'WAVE');
   writeString(view, 12, 'fmt ');
-  view.setUint32(16, 16, true); // PCM chunk size
-  view.setUint16(20, 1, true); // PCM format
-  view.setUint16(22, 1, true); // mono
-  view.setUint32(24, audioBuffer.sampleRate, true);
-  view.setUint32(28, audioBuffer.sampleRate * 2, true); // bytes per second
-  view.setUint16(32, 2, true); // block align
-  view.setUint16(34, 16, true); // bits per sample
-  writeString(view, 36, 'data');
-  view.setUint32(40, byteLength, true);
-  floatTo16BitPCM(view, 44, channelData);
+  view.setUint32(16, fmtLength, true);
+  view.setUint16(20, extensible ? WAVE_FORMAT_EXTENSIBLE : formatTag, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // bytes per second
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true); // bits per sample
+  let offset = 36;
+  if (fmtLength > 16) {
+    view.setUint16(offset, fmtLength - 18, true); // extension size
+    offset += 2;
+  }
+  if (extensible) {
+    view.setUint16(offset, bytesPerSample * 8, true); // valid bits per sample
+    view.setUint32(offset + 2, 2 ** channels.length - 1, true); // speakers in default order
+    // KSDATAFORMAT_SUBTYPE_PCM / _IEEE_FLOAT: the format tag followed by a fixed GUID tail
+    view.setUint32(offset + 6, formatTag, true);
+    [0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71].forEach((byte, index) =>
+      view.setUint8(offset + 10 + index, byte),
+    );
+    offset += 22;
+  }
+  if (isFloat) {
+    writeString(view, offset, 'fact');
+    view.setUint32(offset + 4, 4, true);
+    view.setUint32(offset + 8, frames, true);
+    offset += 12;
+  }
+  writeString(view, offset, 'data');
+  view.setUint32(offset + 4, dataLength, true);
+  writeInterleaved(view, offset + 8, channels, sampleFormat);
 
   return buffer;
 };
 
+const encodeWavBuffer = (audioBuffer: AudioBuffer): ArrayBuffer =>
+  encodeWav([audioBuffer.getChannelData(0)], audioBuffer.sampleRate, 'int16');
+
 const mixToMono = (buffer: AudioBuffer): AudioBuffer => {
   if (buffer.numberOfChannels === 1) {
     return buffer;
@@ -63,6 +131,21 @@ const mixToMono = (buffer: AudioBuffer): AudioBuffer => {
   return monoBuffer;
 };
 
+const extractChannel = (buffer: AudioBuffer, channel: number): AudioBuffer => {
+  const monoBuffer = new AudioBuffer({ numberOfChannels: 1, length: buffer.length, sampleRate: buffer.sampleRate });
+  monoBuffer.copyToChannel(buffer.getChannelData(channel), 0);
+  return monoBuffer;
+};
+
+const peakLevel = (data: Float32Array): number => {
+  let peak = 0;
+  for (let i = 0; i < data.length; i++) {
+    const value = Math.abs(data[i]);
+    if (value > peak) peak = value;
+  }
+  return peak;
+};
+
 const resampleBuffer = async (buffer: AudioBuffer, sampleRate = TARGET_SAMPLE_RATE): Promise<AudioBuffer> => {
   const duration = buffer.duration;
   const offline = new OfflineAudioContext(1, Math.ceil(duration * sampleRate), sampleRate);
@@ -76,19 +159,187 @@ const resampleBuffer = async (buffer: AudioBuffer, sampleRate = TARGET_SAMPLE_RA
   return offline.startRendering();
 };
 
-export const ensureWavBlob = async (blob: Blob, sampleRate = TARGET_SAMPLE_RATE): Promise<Blob> => {
-  if (blob.type && blob.type.includes('wav')) {
-    return blob;
+// Re-renders a buffer at another rate and/or channel count, keeping every channel
+// rather than mixing down like resampleBuffer does for transcription.
+const renderAtSampleRate = async (
+  buffer: AudioBuffer,
+  sampleRate: number,
+  channels = buffer.numberOfChannels,
+): Promise<AudioBuffer> => {
+  if (buffer.sampleRate === sampleRate && buffer.numberOfChannels === channels) {
+    return buffer;
   }
+  const offline = new OfflineAudioContext(channels, Math.ceil(buffer.duration * sampleRate), sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start(0);
+  return offline.startRendering();
+};
 
+// Decodes at the device rate unless given the rate the audio was captured at.
+// An offline context at that rate hands back the samples without resampling,
+// which keeps lossless exports lossless.
+const decodeBlob = async (blob: Blob, sampleRate?: number | null): Promise<AudioBuffer> => {
   const arrayBuffer = await blob.arrayBuffer();
+  if (sampleRate) {
+    return new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(arrayBuffer);
+  }
   const audioContext = new AudioContext();
   try {
-    const decoded = await audioContext.decodeAudioData(arrayBuffer);
-    const resampled = await resampleBuffer(decoded, sampleRate);
-    const wavArrayBuffer = encodeWavBuffer(resampled);
-    return new Blob([wavArrayBuffer], { type: 'audio/wav' });
+    return await audioContext.decodeAudioData(arrayBuffer);
   } finally {
     await audioContext.close();
   }
 };
+
+export interface WaveformPeaks {
+  // Loudest sample, 0..1, in each slice of 1 / peaksPerSecond seconds
+  peaks: Float32Array;
+  peaksPerSecond: number;
+  durationMs: number;
+}
+
+// Decodes a recording for drawing its waveform. An offline context decodes
+// straight to its own low rate, so an hour-long meeting needs megabytes of
+// PCM rather than gigabytes.
+export const decodeWaveformPeaks = async (blob: Blob, peaksPerSecond = 100): Promise<WaveformPeaks> => {
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+  const samplesPerPeak = decoded.sampleRate / peaksPerSecond;
+  const peaks = new Float32Array(Math.ceil(decoded.length / samplesPerPeak));
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const data = decoded.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      const index = Math.floor(i / samplesPerPeak);
+      const value = Math.abs(data[i]);
+      if (value > peaks[index]) peaks[index] = value;
+    }
+  }
+  return { peaks, peaksPerSecond, durationMs: decoded.duration * 1000 };
+};
+
+export const ensureWavBlob = async (blob: Blob, sampleRate = TARGET_SAMPLE_RATE): Promise<Blob> => {
+  if (blob.type && blob.type.includes('wav')) {
+    return blob;
+  }
+
+  const decoded = await decodeBlob(blob);
+  const resampled = await resampleBuffer(decoded, sampleRate);
+  const wavArrayBuffer = encodeWavBuffer(resampled);
+  return new Blob([wavArrayBuffer], { type: 'audio/wav' });
+};
+
+// A whole file as mono PCM at the transcription rate, for cutting into uploads.
+// Like decodeWaveformPeaks it decodes straight to the low rate, so a long
+// imported file never sits in memory at the device rate.
+export const decodeMonoPcm = async (
+  blob: Blob,
+  sampleRate = TARGET_SAMPLE_RATE,
+): Promise<{ samples: Float32Array; sampleRate: number }> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+  return { samples: mixToMono(decoded).getChannelData(0), sampleRate };
+};
+
+// Splits a multichannel recording into one mono WAV per channel. Channels that
+// are effectively silent come back as null so callers can skip uploading them.
+export const ensureChannelWavBlobs = async (
+  blob: Blob,
+  sampleRate = TARGET_SAMPLE_RATE,
+  silencePeak = SILENCE_PEAK,
+): Promise<(Blob | null)[]> => {
+  const decoded = await decodeBlob(blob);
+  const results: (Blob | null)[] = [];
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const channelBuffer = extractChannel(decoded, channel);
+    if (peakLevel(channelBuffer.getChannelData(0)) < silencePeak) {
+      results.push(null);
+      continue;
+    }
+    const resampled = await resampleBuffer(channelBuffer, sampleRate);
+    results.push(new Blob([encodeWavBuffer(resampled)], { type: 'audio/wav' }));
+  }
+  return results;
+};
+
+// Counterpart of ensureChannelWavBlobs for PCM that is already planar at the
+// target rate, such as segments cut from the live capture tap.
+export const pcmToChannelWavBlobs = (
+  channels: Float32Array[],
+  sampleRate = TARGET_SAMPLE_RATE,
+  silencePeak = SILENCE_PEAK,
+): (Blob | null)[] =>
+  channels.map((channel) =>
+    peakLevel(channel) < silencePeak ? null : new Blob([encodeWav([channel], sampleRate)], { type: 'audio/wav' }),
+  );
+
+const planarChannels = (buffer: AudioBuffer): Float32Array[] =>
+  Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel).slice());
+
+const runEncoderWorker = async (
+  request: AudioEncodeRequest,
+  onProgress?: (progress: number) => void,
+): Promise<ArrayBuffer> => {
+  const worker = new Worker(new URL('../workers/audioEncoder.worker.ts', import.meta.url), { type: 'module' });
+  try {
+    return await new Promise<ArrayBuffer>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<AudioEncoderWorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'progress') onProgress?.(message.progress);
+        else if (message.type === 'done') resolve(message.data);
+        else reject(new Error(message.message));
+      };
+      worker.onerror = (event) => reject(new Error(event.message || `${request.format} encoder worker failed`));
+      worker.postMessage(request, request.channels.map((channel) => channel.buffer));
+    });
+  } finally {
+    worker.terminate();
+  }
+};
+
+// Encodes a finished recording to MP3 in a Web Worker, since MediaRecorder in
+// Chrome/Edge cannot produce audio/mpeg itself.
+export const encodeMp3Blob = async (
+  blob: Blob,
+  {
+    bitRate = 128_000,
+    sampleRate: sourceRate,
+    onProgress,
+  }: { bitRate?: number; sampleRate?: number | null; onProgress?: (progress: number) => void } = {},
+): Promise<Blob> => {
+  const decoded = await decodeBlob(blob, sourceRate);
+  const sampleRate = MP3_SAMPLE_RATES.includes(decoded.sampleRate) ? decoded.sampleRate : 48000;
+  const pcm = await renderAtSampleRate(decoded, sampleRate, Math.min(2, decoded.numberOfChannels));
+  const data = await runEncoderWorker({ format: 'mp3', channels: planarChannels(pcm), sampleRate, bitRate }, onProgress);
+  return new Blob([data], { type: 'audio/mpeg' });
+};
+
+// Lossless exports keep every channel, unlike the 16 kHz mono WAVs produced for
+// transcription. Given the capture rate they keep that too; otherwise the audio
+// comes out at the device rate.
+export const encodeWavBlob = async (
+  blob: Blob,
+  { sampleFormat = 'int16', sampleRate }: { sampleFormat?: WavSampleFormat; sampleRate?: number | null } = {},
+): Promise<Blob> => {
+  const decoded = await decodeBlob(blob, sampleRate);
+  return new Blob([encodeWav(planarChannels(decoded), decoded.sampleRate, sampleFormat)], { type: 'audio/wav' });
+};
+
+export const encodeFlacBlob = async (
+  blob: Blob,
+  {
+    bitsPerSample = 24,
+    sampleRate,
+    onProgress,
+  }: { bitsPerSample?: FlacBitDepth; sampleRate?: number | null; onProgress?: (progress: number) => void } = {},
+): Promise<Blob> => {
+  const decoded = await decodeBlob(blob, sampleRate);
+  const request: AudioEncodeRequest = {
+    format: 'flac',
+    channels: planarChannels(decoded),
+    sampleRate: decoded.sampleRate,
+    bitsPerSample,
+  };
+  return new Blob([await runEncoderWorker(request, onProgress)], { type: 'audio/flac' });
+};
@@ -0,0 +1,65 @@
+// MSB-first bit writer shared by the MP3 and FLAC encoders. The buffer grows on
+// demand and is always zero-filled, so skipping bits writes zeros.
+export class BitWriter {
+  private bytes: Uint8Array;
+  private bitPos = 0;
+
+  constructor(initialBytes = 4096) {
+    this.bytes = new Uint8Array(Math.max(16, initialBytes));
+  }
+
+  // Writes the low `bits` bits of an unsigned value, up to 32 at a time
+  write(value: number, bits: number) {
+    if (bits <= 0) return;
+    this.ensure(bits);
+    while (bits > 0) {
+      const free = 8 - (this.bitPos & 7);
+      const take = Math.min(bits, free);
+      const chunk = (bits - take >= 32 ? 0 : value >>> (bits - take)) & ((1 << take) - 1);
+      this.bytes[this.bitPos >>> 3] |= chunk << (free - take);
+      this.bitPos += take;
+      bits -= take;
+    }
+  }
+
+  // Writes `zeros` zero bits followed by a one bit
+  writeUnary(zeros: number) {
+    this.ensure(zeros + 1);
+    this.bitPos += zeros;
+    this.write(1, 1);
+  }
+
+  alignToByte() {
+    this.bitPos = (this.bitPos + 7) & ~7;
+    this.ensure(0);
+  }
+
+  padTo(byteLength: number) {
+    const bits = byteLength * 8 - this.bitPos;
+    if (bits > 0) {
+      this.ensure(bits);
+      this.bitPos += bits;
+    }
+  }
+
+  get bitLength() {
+    return this.bitPos;
+  }
+
+  // View of whole bytes written so far, for checksums
+  view(start = 0, end = this.bitPos >>> 3): Uint8Array {
+    return this.bytes.subarray(start, end);
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, Math.ceil(this.bitPos / 8));
+  }
+
+  private ensure(bits: number) {
+    const needed = Math.ceil((this.bitPos + bits) / 8);
+    if (needed <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(needed, this.bytes.length * 2));
+    grown.set(this.bytes);
+    this.bytes = grown;
+  }
+}
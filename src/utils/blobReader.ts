@@ -0,0 +1,23 @@
+const READ_WINDOW = 1 << 20;
+
+// Random-access reads over a Blob through a sliding window
+export class BlobReader {
+  private window = new Uint8Array(0);
+  private windowStart = 0;
+
+  constructor(private readonly blob: Blob) {}
+
+  get size() {
+    return this.blob.size;
+  }
+
+  async bytes(offset: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(this.blob.size, offset + length);
+    if (offset < this.windowStart || end > this.windowStart + this.window.length) {
+      const windowEnd = Math.min(this.blob.size, offset + Math.max(length, READ_WINDOW));
+      this.window = new Uint8Array(await this.blob.slice(offset, windowEnd).arrayBuffer());
+      this.windowStart = offset;
+    }
+    return this.window.subarray(offset - this.windowStart, end - this.windowStart);
+  }
+}
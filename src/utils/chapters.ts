@@ -0,0 +1,60 @@
+import type { RecordingMarker } from '../types/audio.types';
+import { addId3Chapters } from './id3Chapters';
+import { addMp4Chapters } from './mp4Chapters';
+import { formatTimestamp } from './format';
+
+export interface Chapter {
+  title: string;
+  startMs: number;
+  endMs: number;
+}
+
+// Markers in time order, each running until the next one or the end of the file
+export function markersToChapters(markers: RecordingMarker[], durationMs: number): Chapter[] {
+  const sorted = [...markers].sort((a, b) => a.timeMs - b.timeMs);
+  return sorted.map((marker, i) => {
+    const next = i + 1 < sorted.length ? sorted[i + 1].timeMs : durationMs;
+    return { title: marker.label, startMs: marker.timeMs, endMs: Math.max(marker.timeMs, next) };
+  });
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function buildWebVttChapters(markers: RecordingMarker[], durationMs: number): string {
+  const cues = markersToChapters(markers, durationMs).map(
+    (chapter, i) =>
+      `chapter-${i + 1}\n${formatTimestamp(chapter.startMs)} --> ${formatTimestamp(chapter.endMs)}\n${escapeVtt(chapter.title)}`,
+  );
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export function buildMarkerSidecar(
+  markers: RecordingMarker[],
+  meta: { durationMs: number; startedAt?: number | null; name?: string | null },
+): string {
+  const sidecar = {
+    version: 1,
+    name: meta.name ?? null,
+    startedAt: meta.startedAt ? new Date(meta.startedAt).toISOString() : null,
+    durationMs: Math.round(meta.durationMs),
+    markers: [...markers]
+      .sort((a, b) => a.timeMs - b.timeMs)
+      .map((marker) => ({ label: marker.label, timeMs: Math.round(marker.timeMs), time: formatTimestamp(marker.timeMs) })),
+  };
+  return JSON.stringify(sidecar, null, 2);
+}
+
+// Embeds the markers as chapters where the container has a place for them:
+// ID3 CHAP frames for MP3, a Nero chapter list for MP4/M4A. Other containers
+// come back unchanged; their markers travel in the WebVTT or JSON sidecar.
+export async function embedChapters(blob: Blob, markers: RecordingMarker[], durationMs: number): Promise<Blob> {
+  if (markers.length === 0) return blob;
+  const chapters = markersToChapters(markers, durationMs);
+  try {
+    if (blob.type.includes('mpeg')) return await addId3Chapters(blob, chapters);
+    if (blob.type.includes('mp4')) return await addMp4Chapters(blob, chapters);
+  } catch (err) {
+    console.warn('Unable to embed chapters', err);
+  }
+  return blob;
+}
@@ -0,0 +1,24 @@
+// Triggers a browser download for an object URL or a Blob
+export function saveUrl(url: string, filename: string) {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+}
+
+// The URL outlives the click long enough for the browser to start the download
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  saveUrl(url, filename);
+  window.setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+// Sequential suffix for the files of a recording split into rolling parts
+export function partSuffix(partNumber?: number | null): string {
+  return partNumber ? `-part${String(partNumber).padStart(3, '0')}` : '';
+}
+
+// Base name shared by a recording's audio and sidecar files, from its start time
+export function captureFileName(startedAt?: number | null, partNumber?: number | null): string {
+  return `capture-${new Date(startedAt ?? Date.now()).toISOString().replace(/[:.]/g, '-')}${partSuffix(partNumber)}`;
+}
@@ -0,0 +1,373 @@
+import { BitWriter } from './bitWriter';
+
+// Compact FLAC encoder: fixed block size, FIXED predictors (orders 0-4) with
+// partitioned Rice residuals and stereo decorrelation. Compresses a little less
+// than libFLAC's LPC modes but is bit-exact lossless. Free of DOM APIs so it can
+// run in a Web Worker or under Node.
+
+export type FlacBitDepth = 16 | 24;
+
+export interface FlacEncoderOptions {
+  sampleRate: number;
+  bitsPerSample?: FlacBitDepth;
+  blockSize?: number;
+}
+
+const DEFAULT_BLOCK_SIZE = 4096;
+const MAX_PARTITION_ORDER = 8;
+const MAX_FIXED_ORDER = 4;
+
+const CHANNEL_INDEPENDENT = -1;
+const CHANNEL_LEFT_SIDE = 0b1000;
+const CHANNEL_RIGHT_SIDE = 0b1001;
+const CHANNEL_MID_SIDE = 0b1010;
+
+// Frame header sample rate codes; rates outside this list are written in full
+// after the header
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001,
+  176400: 0b0010,
+  192000: 0b0011,
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+const CRC8_TABLE = (() => {
+  const table = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    table[i] = crc;
+  }
+  return table;
+})();
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    table[i] = crc;
+  }
+  return table;
+})();
+
+const crc8 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+};
+
+const crc16 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+};
+
+// Scales float PCM in [-1, 1] to signed integers of the given width, mapping
+// -1 to the most negative value and +1 to the most positive one
+export const quantizePcm = (samples: Float32Array, bitsPerSample: number): Int32Array => {
+  const negativeScale = 2 ** (bitsPerSample - 1);
+  const positiveScale = negativeScale - 1;
+  const out = new Int32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = Math.round(clamped < 0 ? clamped * negativeScale : clamped * positiveScale);
+  }
+  return out;
+};
+
+const fixedResidual = (samples: Int32Array, order: number, out: Int32Array) => {
+  const n = samples.length;
+  for (let i = order; i < n; i++) {
+    const s = samples;
+    switch (order) {
+      case 0:
+        out[i] = s[i];
+        break;
+      case 1:
+        out[i] = s[i] - s[i - 1];
+        break;
+      case 2:
+        out[i] = s[i] - 2 * s[i - 1] + s[i - 2];
+        break;
+      case 3:
+        out[i] = s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3];
+        break;
+      default:
+        out[i] = s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4];
+    }
+  }
+};
+
+interface RicePlan {
+  partitionOrder: number;
+  parameters: number[];
+  method: 0 | 1;
+  bits: number;
+}
+
+const riceParameterFor = (sum: number, count: number): number => {
+  if (count === 0 || sum <= count) return 0;
+  return Math.min(30, Math.max(0, Math.floor(Math.log2(sum / count))));
+};
+
+// Picks the Rice partition order and per-partition parameters with the
+// smallest estimated size.
+const planRice = (residual: Int32Array, order: number): RicePlan => {
+  const n = residual.length;
+  let maxOrder = 0;
+  while (maxOrder < MAX_PARTITION_ORDER && n % (2 << maxOrder) === 0 && n >> (maxOrder + 1) > order) maxOrder++;
+
+  // Sums of zigzagged residuals for the finest partitioning, merged upwards
+  const finest = 1 << maxOrder;
+  let sums = new Float64Array(finest);
+  const partitionSize = n >> maxOrder;
+  for (let p = 0; p < finest; p++) {
+    const start = p === 0 ? order : p * partitionSize;
+    const end = (p + 1) * partitionSize;
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      const e = residual[i];
+      sum += e >= 0 ? 2 * e : -2 * e - 1;
+    }
+    sums[p] = sum;
+  }
+
+  let best: RicePlan | null = null;
+  for (let partitionOrder = maxOrder; partitionOrder >= 0; partitionOrder--) {
+    const partitions = 1 << partitionOrder;
+    const size = n >> partitionOrder;
+    const parameters: number[] = [];
+    let bits = 0;
+    for (let p = 0; p < partitions; p++) {
+      const count = p === 0 ? size - order : size;
+      const k = riceParameterFor(sums[p], count);
+      parameters.push(k);
+      bits += count * (k + 1) + Math.floor(sums[p] / 2 ** k);
+    }
+    const method: 0 | 1 = parameters.some((k) => k > 14) ? 1 : 0;
+    bits += 2 + 4 + partitions * (method === 0 ? 4 : 5);
+    if (!best || bits < best.bits) best = { partitionOrder, parameters, method, bits };
+
+    if (partitionOrder > 0) {
+      const merged = new Float64Array(partitions / 2);
+      for (let p = 0; p < merged.length; p++) merged[p] = sums[2 * p] + sums[2 * p + 1];
+      sums = merged;
+    }
+  }
+  return best!;
+};
+
+interface SubframePlan {
+  kind: 'constant' | 'verbatim' | 'fixed';
+  order: number;
+  residual: Int32Array | null;
+  rice: RicePlan | null;
+  bits: number;
+}
+
+const planSubframe = (samples: Int32Array, bitsPerSample: number): SubframePlan => {
+  const n = samples.length;
+  let constant = true;
+  for (let i = 1; i < n && constant; i++) constant = samples[i] === samples[0];
+  if (constant) {
+    return { kind: 'constant', order: 0, residual: null, rice: null, bits: 8 + bitsPerSample };
+  }
+
+  let best: SubframePlan = { kind: 'verbatim', order: 0, residual: null, rice: null, bits: 8 + n * bitsPerSample };
+  const maxOrder = Math.min(MAX_FIXED_ORDER, n - 1);
+  for (let order = 0; order <= maxOrder; order++) {
+    const residual = new Int32Array(n);
+    fixedResidual(samples, order, residual);
+    const rice = planRice(residual, order);
+    const bits = 8 + order * bitsPerSample + rice.bits;
+    if (bits < best.bits) best = { kind: 'fixed', order, residual, rice, bits };
+  }
+  return best;
+};
+
+const writeSubframe = (writer: BitWriter, samples: Int32Array, bitsPerSample: number, plan: SubframePlan) => {
+  const mask = bitsPerSample >= 32 ? 0xffffffff : 2 ** bitsPerSample - 1;
+  writer.write(0, 1); // zero padding bit
+  if (plan.kind === 'constant') {
+    writer.write(0b000000, 6);
+    writer.write(0, 1); // no wasted bits
+    writer.write(samples[0] & mask, bitsPerSample);
+    return;
+  }
+  if (plan.kind === 'verbatim') {
+    writer.write(0b000001, 6);
+    writer.write(0, 1);
+    for (let i = 0; i < samples.length; i++) writer.write(samples[i] & mask, bitsPerSample);
+    return;
+  }
+
+  const { order } = plan;
+  const residual = plan.residual!;
+  const rice = plan.rice!;
+  writer.write(0b001000 | order, 6);
+  writer.write(0, 1);
+  for (let i = 0; i < order; i++) writer.write(samples[i] & mask, bitsPerSample);
+
+  writer.write(rice.method, 2);
+  writer.write(rice.partitionOrder, 4);
+  const size = samples.length >> rice.partitionOrder;
+  rice.parameters.forEach((k, p) => {
+    writer.write(k, rice.method === 0 ? 4 : 5);
+    const start = p === 0 ? order : p * size;
+    const end = (p + 1) * size;
+    for (let i = start; i < end; i++) {
+      const e = residual[i];
+      const u = e >= 0 ? 2 * e : -2 * e - 1;
+      writer.writeUnary(Math.floor(u / 2 ** k));
+      if (k > 0) writer.write(u % 2 ** k, k);
+    }
+  });
+};
+
+const writeUtf8Number = (writer: BitWriter, value: number) => {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let continuationBytes = value < 0x800 ? 1 : value < 0x10000 ? 2 : value < 0x200000 ? 3 : value < 0x4000000 ? 4 : 5;
+  const leadMarker = (0xff << (7 - continuationBytes)) & 0xff;
+  writer.write(leadMarker | Math.floor(value / 2 ** (6 * continuationBytes)), 8);
+  while (continuationBytes-- > 0) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * continuationBytes)) & 0x3f), 8);
+  }
+};
+
+const encodeFrame = (
+  channels: Int32Array[],
+  frameNumber: number,
+  sampleRate: number,
+  bitsPerSample: number,
+  standardBlockSize: number,
+): Uint8Array => {
+  const blockSize = channels[0].length;
+  let assignment = CHANNEL_INDEPENDENT;
+  let coded = channels;
+  let depths = channels.map(() => bitsPerSample);
+  let plans = channels.map((samples) => planSubframe(samples, bitsPerSample));
+
+  if (channels.length === 2) {
+    const [left, right] = channels;
+    const side = new Int32Array(blockSize);
+    const mid = new Int32Array(blockSize);
+    for (let i = 0; i < blockSize; i++) {
+      side[i] = left[i] - right[i];
+      mid[i] = (left[i] + right[i]) >> 1;
+    }
+    const sidePlan = planSubframe(side, bitsPerSample + 1);
+    const midPlan = planSubframe(mid, bitsPerSample);
+    const options = [
+      { assignment: CHANNEL_INDEPENDENT, bits: plans[0].bits + plans[1].bits },
+      { assignment: CHANNEL_LEFT_SIDE, bits: plans[0].bits + sidePlan.bits },
+      { assignment: CHANNEL_RIGHT_SIDE, bits: sidePlan.bits + plans[1].bits },
+      { assignment: CHANNEL_MID_SIDE, bits: midPlan.bits + sidePlan.bits },
+    ];
+    const best = options.reduce((a, b) => (b.bits < a.bits ? b : a));
+    assignment = best.assignment;
+    if (assignment === CHANNEL_LEFT_SIDE) {
+      coded = [left, side];
+      depths = [bitsPerSample, bitsPerSample + 1];
+      plans = [plans[0], sidePlan];
+    } else if (assignment === CHANNEL_RIGHT_SIDE) {
+      coded = [side, right];
+      depths = [bitsPerSample + 1, bitsPerSample];
+      plans = [sidePlan, plans[1]];
+    } else if (assignment === CHANNEL_MID_SIDE) {
+      coded = [mid, side];
+      depths = [bitsPerSample, bitsPerSample + 1];
+      plans = [midPlan, sidePlan];
+    }
+  }
+
+  const estimatedBytes = Math.ceil(plans.reduce((sum, plan) => sum + plan.bits, 0) / 8) + 32;
+  const writer = new BitWriter(estimatedBytes);
+  writer.write(0b11111111111110, 14); // sync
+  writer.write(0, 1); // reserved
+  writer.write(0, 1); // fixed block size stream
+  const isStandard = blockSize === standardBlockSize && standardBlockSize === DEFAULT_BLOCK_SIZE;
+  writer.write(isStandard ? 0b1100 : 0b0111, 4);
+  const sampleRateCode =
+    SAMPLE_RATE_CODES[sampleRate] ?? (sampleRate % 10 === 0 && sampleRate / 10 < 0x10000 ? 0b1110 : 0b1101);
+  writer.write(sampleRateCode, 4);
+  writer.write(assignment === CHANNEL_INDEPENDENT ? channels.length - 1 : assignment, 4);
+  writer.write(bitsPerSample === 16 ? 0b100 : 0b110, 3);
+  writer.write(0, 1); // reserved
+  writeUtf8Number(writer, frameNumber);
+  if (!isStandard) writer.write(blockSize - 1, 16);
+  if (sampleRateCode === 0b1110) writer.write(sampleRate / 10, 16);
+  else if (sampleRateCode === 0b1101) writer.write(sampleRate, 16);
+  writer.write(crc8(writer.view()), 8);
+
+  coded.forEach((samples, index) => writeSubframe(writer, samples, depths[index], plans[index]));
+  writer.alignToByte();
+  writer.write(crc16(writer.view()), 16);
+  return writer.finish();
+};
+
+const writeStreamInfo = (
+  sampleRate: number,
+  channels: number,
+  bitsPerSample: number,
+  totalSamples: number,
+  blockSize: number,
+): Uint8Array => {
+  const writer = new BitWriter(42);
+  writer.write(0x664c6143, 32); // "fLaC"
+  writer.write(1, 1); // last metadata block
+  writer.write(0, 7); // STREAMINFO
+  writer.write(34, 24);
+  const streamBlockSize = Math.min(blockSize, Math.max(16, totalSamples));
+  writer.write(streamBlockSize, 16); // min block size
+  writer.write(streamBlockSize, 16); // max block size
+  writer.write(0, 24); // min frame size unknown
+  writer.write(0, 24); // max frame size unknown
+  writer.write(sampleRate, 20);
+  writer.write(channels - 1, 3);
+  writer.write(bitsPerSample - 1, 5);
+  writer.write(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.write(totalSamples >>> 0, 32);
+  writer.padTo(42); // MD5 left as zero, meaning "not computed"
+  return writer.finish();
+};
+
+// Encodes planar float PCM into a complete FLAC file. `onProgress` receives
+// the fraction of samples done after each frame.
+export const encodeFlac = (
+  channelData: Float32Array[],
+  { sampleRate, bitsPerSample = 24, blockSize = DEFAULT_BLOCK_SIZE }: FlacEncoderOptions,
+  onProgress?: (progress: number) => void,
+): Uint8Array => {
+  if (channelData.length < 1 || channelData.length > 8) {
+    throw new Error(`FLAC supports 1 to 8 channels, got ${channelData.length}`);
+  }
+  const totalSamples = channelData[0].length;
+  const pcm = channelData.map((channel) => quantizePcm(channel, bitsPerSample));
+  const parts: Uint8Array[] = [writeStreamInfo(sampleRate, pcm.length, bitsPerSample, totalSamples, blockSize)];
+
+  let frameNumber = 0;
+  for (let start = 0; start < totalSamples; start += blockSize) {
+    const end = Math.min(totalSamples, start + blockSize);
+    parts.push(encodeFrame(pcm.map((channel) => channel.subarray(start, end)), frameNumber++, sampleRate, bitsPerSample, blockSize));
+    onProgress?.(end / totalSamples);
+  }
+
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
@@ -0,0 +1,35 @@
+export function formatDuration(seconds: number): string {
+  const s = Math.floor(seconds % 60);
+  const m = Math.floor(seconds / 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// HH:MM:SS.mmm as used by WebVTT; SRT wants ',' before the milliseconds
+export function formatTimestamp(ms: number, fractionSeparator = '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+  const pad = (value: number, width = 2) => value.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fractionSeparator}${pad(millis, 3)}`;
+}
+
+// Display name of a language code ("de" -> "German"); engines that report
+// names ("german") are capitalised instead
+export function formatLanguage(language: string): string {
+  if (/^[a-z]{2,3}$/i.test(language) && typeof Intl.DisplayNames === 'function') {
+    try {
+      return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) || language;
+    } catch {
+      // Not a code Intl knows
+    }
+  }
+  return language.charAt(0).toUpperCase() + language.slice(1);
+}
@@ -0,0 +1,114 @@
+import type { Chapter } from './chapters';
+
+// ID3v2 chapter frames (CTOC + CHAP, from the ID3v2 Chapter Frame Addendum).
+// A new tag is written as ID3v2.4 with UTF-8 titles. When the file already
+// starts with a plain v2.3/v2.4 tag, the chapters are merged into it and any
+// old chapter frames are dropped.
+
+const HEADER_SIZE = 10;
+const NO_BYTE_OFFSET = 0xffffffff;
+const utf8 = new TextEncoder();
+
+type Id3Version = 3 | 4;
+
+const syncsafe = (value: number) => [(value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f];
+
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const concat = (parts: (Uint8Array | number[])[]) => {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+function frame(id: string, body: Uint8Array, version: Id3Version): Uint8Array {
+  const size = version === 4 ? syncsafe(body.length) : uint32(body.length);
+  return concat([utf8.encode(id), size, [0, 0], body]);
+}
+
+// v2.4 has UTF-8 (encoding 3); v2.3 only has UTF-16 with a BOM (encoding 1)
+function textFrame(id: string, text: string, version: Id3Version): Uint8Array {
+  if (version === 4) {
+    return frame(id, concat([[3], utf8.encode(text)]), version);
+  }
+  const utf16 = [0xff, 0xfe];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    utf16.push(code & 0xff, code >>> 8);
+  }
+  return frame(id, concat([[1], utf16]), version);
+}
+
+function chapterFrames(chapters: Chapter[], version: Id3Version): Uint8Array[] {
+  const ids = chapters.map((_, i) => utf8.encode(`chp${i}\0`));
+  const chaps = chapters.map((chapter, i) =>
+    frame(
+      'CHAP',
+      concat([
+        ids[i],
+        uint32(Math.round(chapter.startMs)),
+        uint32(Math.round(chapter.endMs)),
+        uint32(NO_BYTE_OFFSET),
+        uint32(NO_BYTE_OFFSET),
+        textFrame('TIT2', chapter.title, version),
+      ]),
+      version,
+    ),
+  );
+  // Top-level (0x02) and ordered (0x01) table of contents listing every chapter
+  const toc = frame('CTOC', concat([utf8.encode('toc\0'), [0x03, chapters.length], ...ids]), version);
+  return [toc, ...chaps];
+}
+
+// Frames of an existing tag body up to its padding, minus old chapter frames
+function keptFrames(body: Uint8Array, version: Id3Version): Uint8Array[] {
+  const frames: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + HEADER_SIZE <= body.length && body[offset] !== 0) {
+    const id = String.fromCharCode(...body.subarray(offset, offset + 4));
+    const size = version === 4 ? readSyncsafe(body, offset + 4) : readUint32(body, offset + 4);
+    const end = offset + HEADER_SIZE + size;
+    if (end > body.length) break;
+    if (id !== 'CHAP' && id !== 'CTOC') frames.push(body.subarray(offset, end));
+    offset = end;
+  }
+  return frames;
+}
+
+function tag(frames: Uint8Array[], version: Id3Version): Uint8Array {
+  const body = concat(frames);
+  return concat([utf8.encode('ID3'), [version, 0, 0], syncsafe(body.length), body]);
+}
+
+export async function addId3Chapters(blob: Blob, chapters: Chapter[]): Promise<Blob> {
+  // CTOC stores its entry count in one byte
+  const listed = chapters.slice(0, 255);
+  const head = new Uint8Array(await blob.slice(0, HEADER_SIZE).arrayBuffer());
+  const hasTag = head.length === HEADER_SIZE && head[0] === 0x49 && head[1] === 0x44 && head[2] === 0x33;
+  if (!hasTag) {
+    return new Blob([tag(chapterFrames(listed, 4), 4), blob], { type: blob.type });
+  }
+
+  const version = head[3];
+  const flags = head[5];
+  const tagEnd = HEADER_SIZE + readSyncsafe(head, 6);
+  // Unsynchronised, extended-header or footer tags are left alone rather than half-parsed
+  if ((version !== 3 && version !== 4) || flags !== 0) {
+    console.warn('Existing ID3 tag cannot be extended, chapters were not embedded');
+    return blob;
+  }
+  const body = new Uint8Array(await blob.slice(HEADER_SIZE, tagEnd).arrayBuffer());
+  const frames = [...keptFrames(body, version), ...chapterFrames(listed, version)];
+  return new Blob([tag(frames, version), blob.slice(tagEnd)], { type: blob.type });
+}
@@ -0,0 +1,144 @@
+import { MPEGDecoder } from 'mpg123-decoder';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createMp3Encoder } from './mp3Encoder';
+import { MPEG1_BITRATES, MPEG1_SAMPLE_RATES } from './mp3Tables';
+
+const SAMPLES_PER_FRAME = 1152;
+// Tones come back at about 80 dB; a broken bitstream or filterbank lands far
+// below this, while quantisation changes stay well above it
+const SNR_FLOOR_DB = 30;
+
+// Linear sweep across the speech band, the kind of signal the encoder is meant for
+function chirp(sampleRate: number, seconds: number, fromHz = 200, toHz = 4000, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  const rate = (toHz - fromHz) / seconds;
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    samples[i] = amplitude * Math.sin(2 * Math.PI * (fromHz * t + (rate * t * t) / 2));
+  }
+  return samples;
+}
+
+function sine(sampleRate: number, seconds: number, hz: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) samples[i] = amplitude * Math.sin((2 * Math.PI * hz * i) / sampleRate);
+  return samples;
+}
+
+// Feeds the encoder in uneven slices, as the worker does, so frames straddle calls
+function encode(channels: Float32Array[], sampleRate: number, bitRate: number): Uint8Array {
+  const encoder = createMp3Encoder({ sampleRate, channels: channels.length, bitRate });
+  const parts: Uint8Array[] = [];
+  for (let start = 0; start < channels[0].length; start += 5000) {
+    parts.push(encoder.encode(channels.map((channel) => channel.subarray(start, start + 5000))));
+  }
+  parts.push(encoder.flush());
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+interface FrameHeader {
+  offset: number;
+  bitRate: number;
+  sampleRate: number;
+  padding: number;
+  mono: boolean;
+  length: number;
+}
+
+// Walks the stream frame by frame, checking each header on the way
+function readFrames(mp3: Uint8Array): FrameHeader[] {
+  const frames: FrameHeader[] = [];
+  for (let offset = 0; offset < mp3.length;) {
+    const header = (mp3[offset] << 24) | (mp3[offset + 1] << 16) | (mp3[offset + 2] << 8) | mp3[offset + 3];
+    expect(header >>> 21, `sync at ${offset}`).toBe(0x7ff);
+    expect((header >>> 19) & 0b11, 'MPEG-1').toBe(0b11);
+    expect((header >>> 17) & 0b11, 'Layer III').toBe(0b01);
+    expect((header >>> 16) & 1, 'no CRC').toBe(1);
+    const bitRate = MPEG1_BITRATES[(header >>> 12) & 0xf] * 1000;
+    const sampleRate = MPEG1_SAMPLE_RATES[(header >>> 10) & 0b11];
+    const padding = (header >>> 9) & 1;
+    const length = Math.floor((144 * bitRate) / sampleRate) + padding;
+    frames.push({ offset, bitRate, sampleRate, padding, mono: ((header >>> 6) & 0b11) === 0b11, length });
+    offset += length;
+  }
+  return frames;
+}
+
+// Lines the decoded signal up with the source, which the codec delays by a
+// fixed number of samples, and returns the signal-to-noise ratio in dB
+function snr(source: Float32Array, decoded: Float32Array): number {
+  const window = source.subarray(4096, source.length - 4096);
+  let best = { delay: 0, correlation: -Infinity };
+  for (let delay = 0; delay < 4096; delay++) {
+    let correlation = 0;
+    for (let i = 0; i < 4096; i++) correlation += window[i] * decoded[4096 + delay + i];
+    if (correlation > best.correlation) best = { delay, correlation };
+  }
+  let signal = 0;
+  let noise = 0;
+  for (let i = 0; i < window.length; i++) {
+    const error = window[i] - decoded[4096 + best.delay + i];
+    signal += window[i] * window[i];
+    noise += error * error;
+  }
+  return 10 * Math.log10(signal / noise);
+}
+
+describe('createMp3Encoder', () => {
+  let decoder: MPEGDecoder;
+
+  beforeAll(async () => {
+    decoder = new MPEGDecoder();
+    await decoder.ready;
+  });
+
+  afterAll(() => decoder.free());
+
+  it('writes constant-bitrate MPEG-1 Layer III frames', () => {
+    const source = chirp(44_100, 2);
+    const mp3 = encode([source], 44_100, 128_000);
+    const frames = readFrames(mp3);
+
+    for (const frame of frames) {
+      expect(frame).toMatchObject({ bitRate: 128_000, sampleRate: 44_100, mono: true });
+    }
+    // Frames are 417 bytes, with a padding byte often enough to keep 128 kbps
+    const padded = frames.filter((frame) => frame.padding).length;
+    expect(padded / frames.length).toBeCloseTo(0.98, 1);
+    expect(frames.reduce((sum, frame) => sum + frame.length, 0)).toBe(mp3.length);
+    // Every sample, then one frame of silence to flush the filterbank delay
+    expect(frames).toHaveLength(Math.ceil(source.length / SAMPLES_PER_FRAME) + 1);
+  });
+
+  it('decodes back to the chirp it was given', () => {
+    const source = chirp(44_100, 2);
+    const decoded = decoder.decode(encode([source], 44_100, 128_000));
+
+    expect(decoded.errors).toEqual([]);
+    expect(decoded.sampleRate).toBe(44_100);
+    // mpg123 always hands back two channels, copies of each other for mono
+    expect(decoded.channelData[1]).toEqual(decoded.channelData[0]);
+    expect(snr(source, decoded.channelData[0])).toBeGreaterThan(SNR_FLOOR_DB);
+  });
+
+  it('keeps stereo channels apart', async () => {
+    await decoder.reset();
+    const left = sine(48_000, 1, 440);
+    const right = sine(48_000, 1, 1000, 0.25);
+    const mp3 = encode([left, right], 48_000, 192_000);
+
+    for (const frame of readFrames(mp3)) {
+      expect(frame).toMatchObject({ bitRate: 192_000, sampleRate: 48_000, mono: false, padding: 0 });
+    }
+    const decoded = decoder.decode(mp3);
+    expect(decoded.errors).toEqual([]);
+    expect(snr(left, decoded.channelData[0])).toBeGreaterThan(SNR_FLOOR_DB);
+    expect(snr(right, decoded.channelData[1])).toBeGreaterThan(SNR_FLOOR_DB);
+  });
+});
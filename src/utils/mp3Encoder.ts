@@ -0,0 +1,493 @@
+import { BitWriter } from './bitWriter';
+import {
+  ANALYSIS_WINDOW,
+  COUNT1_TABLES,
+  HUFFMAN_PAIR_TABLES,
+  LINBITS,
+  MPEG1_BITRATES,
+  MPEG1_SAMPLE_RATES,
+  SFB_LONG,
+} from './mp3Tables';
+
+// Minimal constant-bitrate MPEG-1 Layer III encoder. It trades quality for size
+// and simplicity: long blocks only, no psychoacoustic model, no scalefactors and
+// no bit reservoir. Good enough for speech and meeting audio at >= 96 kbps.
+// Deliberately free of DOM APIs so it runs in a Web Worker as well as in Node.
+
+export interface Mp3EncoderOptions {
+  sampleRate: number;
+  channels: number;
+  bitRate?: number; // bits per second
+}
+
+export interface Mp3Encoder {
+  // Accepts planar float PCM in [-1, 1]; returns whichever frames completed
+  encode: (channelData: Float32Array[]) => Uint8Array;
+  // Pads the tail with silence and returns the final frames
+  flush: () => Uint8Array;
+}
+
+export const MP3_SAMPLE_RATES = MPEG1_SAMPLE_RATES;
+
+const SAMPLES_PER_FRAME = 1152;
+const GRANULE_SIZE = 576;
+const SUBBANDS = 32;
+const SLOTS_PER_GRANULE = 18;
+const MAX_QUANTIZED = 8191 + 15;
+const MAX_PART23_BITS = 4095;
+const DEFAULT_BIT_RATE = 128_000;
+
+// Region sizes (in scalefactor bands) for the big-values area, keyed by how
+// many bands the big values span.
+const REGION_SUBDIVISION: [number, number][] = [
+  [0, 0], [0, 0], [0, 0], [0, 0], [0, 0], [0, 1], [1, 1], [1, 1], [1, 2], [2, 2], [2, 3], [2, 3],
+  [3, 4], [3, 4], [3, 4], [4, 5], [4, 5], [4, 6], [5, 6], [5, 6], [5, 7], [6, 7], [6, 7],
+];
+
+// Tables worth trying for a region whose largest value is below 16, by that value
+const SMALL_TABLE_CANDIDATES: number[][] = [
+  [0],
+  [1],
+  [2, 3],
+  [5, 6],
+  [7, 8, 9], [7, 8, 9],
+  [10, 11, 12], [10, 11, 12],
+  [13, 15], [13, 15], [13, 15], [13, 15], [13, 15], [13, 15], [13, 15], [13, 15],
+];
+
+const ALIAS_COEFFICIENTS = [-0.6, -0.535, -0.33, -0.185, -0.095, -0.041, -0.0142, -0.0037];
+const ALIAS_CS = ALIAS_COEFFICIENTS.map((c) => 1 / Math.sqrt(1 + c * c));
+const ALIAS_CA = ALIAS_COEFFICIENTS.map((c) => c / Math.sqrt(1 + c * c));
+
+const MATRIX: Float64Array = (() => {
+  const matrix = new Float64Array(SUBBANDS * 64);
+  for (let k = 0; k < SUBBANDS; k++) {
+    for (let i = 0; i < 64; i++) {
+      matrix[k * 64 + i] = Math.cos(((2 * k + 1) * (i - 16) * Math.PI) / 64);
+    }
+  }
+  return matrix;
+})();
+
+// Windowed 36-point MDCT, scaled so the decoder's unnormalised IMDCT plus
+// overlap-add gives back the subband signal.
+const MDCT_MATRIX: Float64Array = (() => {
+  const matrix = new Float64Array(SLOTS_PER_GRANULE * 36);
+  for (let k = 0; k < SLOTS_PER_GRANULE; k++) {
+    for (let n = 0; n < 36; n++) {
+      const window = Math.sin((Math.PI / 36) * (n + 0.5));
+      matrix[k * 36 + n] = (window * Math.cos((Math.PI / 72) * (2 * n + 19) * (2 * k + 1))) / 9;
+    }
+  }
+  return matrix;
+})();
+
+interface GranuleInfo {
+  part23Length: number;
+  bigValues: number;
+  globalGain: number;
+  tableSelect: [number, number, number];
+  region0Count: number;
+  region1Count: number;
+  count1TableSelect: number;
+  count1End: number;
+}
+
+const pairBits = (table: number, ix: Int32Array, start: number, end: number): number => {
+  if (table === 0) return 0;
+  const linbits = LINBITS[table] || 0;
+  const { xlen, lengths } = HUFFMAN_PAIR_TABLES[table >= 24 ? 24 : table >= 16 ? 16 : table];
+  let bits = 0;
+  for (let i = start; i < end; i += 2) {
+    let x = ix[i];
+    let y = ix[i + 1];
+    if (linbits) {
+      if (x > 14) {
+        x = 15;
+        bits += linbits;
+      }
+      if (y > 14) {
+        y = 15;
+        bits += linbits;
+      }
+    }
+    bits += lengths[x * xlen + y];
+    if (x) bits++;
+    if (y) bits++;
+  }
+  return bits;
+};
+
+const chooseTable = (ix: Int32Array, start: number, end: number): { table: number; bits: number } => {
+  let max = 0;
+  for (let i = start; i < end; i++) {
+    if (ix[i] > max) max = ix[i];
+  }
+  if (max === 0) return { table: 0, bits: 0 };
+
+  let candidates: number[];
+  if (max < 16) {
+    candidates = SMALL_TABLE_CANDIDATES[max];
+  } else {
+    const escape = max - 15;
+    const first16 = [16, 17, 18, 19, 20, 21, 22, 23].find((t) => (1 << LINBITS[t]) - 1 >= escape);
+    const first24 = [24, 25, 26, 27, 28, 29, 30, 31].find((t) => (1 << LINBITS[t]) - 1 >= escape);
+    candidates = [first16, first24].filter((t): t is number => t !== undefined);
+  }
+
+  let best = { table: candidates[0], bits: Infinity };
+  for (const table of candidates) {
+    const bits = pairBits(table, ix, start, end);
+    if (bits < best.bits) best = { table, bits };
+  }
+  return best;
+};
+
+const count1Bits = (ix: Int32Array, start: number, end: number): { select: number; bits: number } => {
+  let bitsA = 0;
+  let bitsB = 0;
+  for (let i = start; i < end; i += 4) {
+    const index = ix[i] * 8 + ix[i + 1] * 4 + ix[i + 2] * 2 + ix[i + 3];
+    const signs = ix[i] + ix[i + 1] + ix[i + 2] + ix[i + 3];
+    bitsA += COUNT1_TABLES[0].lengths[index] + signs;
+    bitsB += COUNT1_TABLES[1].lengths[index] + signs;
+  }
+  return bitsA <= bitsB ? { select: 0, bits: bitsA } : { select: 1, bits: bitsB };
+};
+
+// Splits the quantised spectrum into big-values, count1 and zero regions, picks
+// Huffman tables and returns the resulting part2_3_length.
+const layoutGranule = (ix: Int32Array, sfb: number[], info: GranuleInfo): number => {
+  let end = GRANULE_SIZE;
+  while (end > 1 && ix[end - 1] === 0 && ix[end - 2] === 0) end -= 2;
+  const count1End = end;
+  while (end > 3 && ix[end - 1] <= 1 && ix[end - 2] <= 1 && ix[end - 3] <= 1 && ix[end - 4] <= 1) end -= 4;
+  // The zero region must start on a quadruple boundary relative to big values
+  const bigEnd = end;
+  const count1Length = Math.ceil((count1End - bigEnd) / 4) * 4;
+  info.count1End = Math.min(GRANULE_SIZE, bigEnd + count1Length);
+  info.bigValues = bigEnd / 2;
+
+  let region0Count = 0;
+  let region1Count = 0;
+  let address1 = 0;
+  let address2 = 0;
+  if (bigEnd > 0) {
+    let bands = 0;
+    while (sfb[bands] < bigEnd) bands++;
+    region0Count = REGION_SUBDIVISION[bands][0];
+    while (region0Count && sfb[region0Count + 1] > bigEnd) region0Count--;
+    region1Count = REGION_SUBDIVISION[bands][1];
+    while (region1Count && sfb[region0Count + region1Count + 2] > bigEnd) region1Count--;
+    address1 = Math.min(sfb[region0Count + 1], bigEnd);
+    address2 = Math.min(sfb[region0Count + region1Count + 2], bigEnd);
+  }
+  info.region0Count = region0Count;
+  info.region1Count = region1Count;
+
+  const region0 = chooseTable(ix, 0, address1);
+  const region1 = chooseTable(ix, address1, address2);
+  const region2 = chooseTable(ix, address2, bigEnd);
+  info.tableSelect = [region0.table, region1.table, region2.table];
+
+  const count1 = count1Bits(ix, bigEnd, info.count1End);
+  info.count1TableSelect = count1.select;
+
+  info.part23Length = region0.bits + region1.bits + region2.bits + count1.bits;
+  return info.part23Length;
+};
+
+const quantize = (xr34: Float64Array, gain: number, ix: Int32Array): number => {
+  const step = Math.pow(2, -0.1875 * (gain - 210));
+  let max = 0;
+  for (let i = 0; i < GRANULE_SIZE; i++) {
+    const value = Math.floor(xr34[i] * step + 0.4054);
+    ix[i] = value;
+    if (value > max) max = value;
+  }
+  return max;
+};
+
+const writePair = (writer: BitWriter, table: number, x: number, y: number, signX: boolean, signY: boolean) => {
+  const linbits = LINBITS[table] || 0;
+  const { xlen, codes, lengths } = HUFFMAN_PAIR_TABLES[table >= 24 ? 24 : table >= 16 ? 16 : table];
+  const codeX = linbits && x > 14 ? 15 : x;
+  const codeY = linbits && y > 14 ? 15 : y;
+  const index = codeX * xlen + codeY;
+  writer.write(codes[index], lengths[index]);
+  if (codeX === 15 && linbits) writer.write(x - 15, linbits);
+  if (x) writer.write(signX ? 1 : 0, 1);
+  if (codeY === 15 && linbits) writer.write(y - 15, linbits);
+  if (y) writer.write(signY ? 1 : 0, 1);
+};
+
+const writeGranuleData = (writer: BitWriter, ix: Int32Array, xr: Float64Array, sfb: number[], info: GranuleInfo) => {
+  const bigEnd = info.bigValues * 2;
+  const address1 = Math.min(sfb[info.region0Count + 1], bigEnd);
+  const address2 = Math.min(sfb[info.region0Count + info.region1Count + 2], bigEnd);
+  for (let i = 0; i < bigEnd; i += 2) {
+    const table = i < address1 ? info.tableSelect[0] : i < address2 ? info.tableSelect[1] : info.tableSelect[2];
+    if (table === 0) continue;
+    writePair(writer, table, ix[i], ix[i + 1], xr[i] < 0, xr[i + 1] < 0);
+  }
+  const { codes, lengths } = COUNT1_TABLES[info.count1TableSelect];
+  for (let i = bigEnd; i < info.count1End; i += 4) {
+    const index = ix[i] * 8 + ix[i + 1] * 4 + ix[i + 2] * 2 + ix[i + 3];
+    writer.write(codes[index], lengths[index]);
+    for (let j = 0; j < 4; j++) {
+      if (ix[i + j]) writer.write(xr[i + j] < 0 ? 1 : 0, 1);
+    }
+  }
+};
+
+const lowpassHz = (bitRatePerChannel: number): number => {
+  if (bitRatePerChannel >= 96_000) return 17_000;
+  if (bitRatePerChannel >= 64_000) return 15_000;
+  if (bitRatePerChannel >= 48_000) return 12_000;
+  return 9_000;
+};
+
+export const createMp3Encoder = ({ sampleRate, channels, bitRate = DEFAULT_BIT_RATE }: Mp3EncoderOptions): Mp3Encoder => {
+  const sampleRateIndex = MPEG1_SAMPLE_RATES.indexOf(sampleRate);
+  if (sampleRateIndex < 0) {
+    throw new Error(`MP3 encoding supports ${MPEG1_SAMPLE_RATES.join(', ')} Hz, got ${sampleRate} Hz`);
+  }
+  if (channels !== 1 && channels !== 2) {
+    throw new Error(`MP3 encoding supports mono or stereo, got ${channels} channels`);
+  }
+  const bitRateIndex = MPEG1_BITRATES.indexOf(Math.round(bitRate / 1000));
+  if (bitRateIndex <= 0) {
+    throw new Error(`Unsupported MP3 bitrate ${bitRate}; use one of ${MPEG1_BITRATES.slice(1).join(', ')} kbps`);
+  }
+
+  const kbps = MPEG1_BITRATES[bitRateIndex];
+  const sfb = SFB_LONG[sampleRate];
+  const sideInfoBytes = channels === 1 ? 17 : 32;
+  const cutoffLine = Math.min(
+    GRANULE_SIZE,
+    Math.ceil((lowpassHz((kbps * 1000) / channels) / (sampleRate / 2)) * GRANULE_SIZE),
+  );
+  const frameBytesBase = Math.floor((144 * kbps * 1000) / sampleRate);
+  const frameRemainder = (144 * kbps * 1000) % sampleRate;
+  let paddingAccumulator = 0;
+
+  const pending = Array.from({ length: channels }, () => new Float32Array(SAMPLES_PER_FRAME));
+  let pendingLength = 0;
+
+  // Analysis filterbank history, stored so X[i] of the standard is history[(offset + i) & 511]
+  const history = Array.from({ length: channels }, () => new Float64Array(512));
+  let historyOffset = 0;
+  const previousSubbands = Array.from({ length: channels }, () => new Float64Array(SUBBANDS * SLOTS_PER_GRANULE));
+  const subbands = Array.from({ length: channels }, () => new Float64Array(SUBBANDS * SLOTS_PER_GRANULE));
+
+  const y = new Float64Array(64);
+  const mdctInput = new Float64Array(36);
+  const xr = Array.from({ length: 2 }, () => Array.from({ length: channels }, () => new Float64Array(GRANULE_SIZE)));
+  const xr34 = new Float64Array(GRANULE_SIZE);
+  const ix = Array.from({ length: 2 }, () => Array.from({ length: channels }, () => new Int32Array(GRANULE_SIZE)));
+  const info: GranuleInfo[][] = Array.from({ length: 2 }, () =>
+    Array.from({ length: channels }, () => ({
+      part23Length: 0,
+      bigValues: 0,
+      globalGain: 210,
+      tableSelect: [0, 0, 0] as [number, number, number],
+      region0Count: 0,
+      region1Count: 0,
+      count1TableSelect: 0,
+      count1End: 0,
+    })),
+  );
+
+  const analyse = (channel: number, pcm: Float32Array, frameOffset: number, slot: number) => {
+    const buffer = history[channel];
+    const offset = historyOffset;
+    for (let i = 0; i < 32; i++) {
+      buffer[(offset + 31 - i) & 511] = pcm[frameOffset + i];
+    }
+    for (let i = 0; i < 64; i++) {
+      let sum = 0;
+      for (let j = 0; j < 8; j++) {
+        const index = i + 64 * j;
+        sum += ANALYSIS_WINDOW[index] * buffer[(offset + index) & 511];
+      }
+      y[i] = sum;
+    }
+    const out = subbands[channel];
+    for (let k = 0; k < SUBBANDS; k++) {
+      let sum = 0;
+      const row = k * 64;
+      for (let i = 0; i < 64; i++) sum += MATRIX[row + i] * y[i];
+      // Undo the frequency inversion the decoder applies to odd bands at odd slots
+      out[k * SLOTS_PER_GRANULE + slot] = k & 1 && slot & 1 ? -sum : sum;
+    }
+  };
+
+  const transform = (channel: number, out: Float64Array) => {
+    const previous = previousSubbands[channel];
+    const current = subbands[channel];
+    for (let band = 0; band < SUBBANDS; band++) {
+      const base = band * SLOTS_PER_GRANULE;
+      for (let n = 0; n < 18; n++) {
+        mdctInput[n] = previous[base + n];
+        mdctInput[n + 18] = current[base + n];
+      }
+      for (let k = 0; k < SLOTS_PER_GRANULE; k++) {
+        let sum = 0;
+        const row = k * 36;
+        for (let n = 0; n < 36; n++) sum += MDCT_MATRIX[row + n] * mdctInput[n];
+        out[base + k] = sum;
+      }
+    }
+    previous.set(current);
+
+    for (let band = 1; band < SUBBANDS; band++) {
+      const boundary = band * SLOTS_PER_GRANULE;
+      for (let i = 0; i < 8; i++) {
+        const upper = out[boundary - 1 - i];
+        const lower = out[boundary + i];
+        out[boundary - 1 - i] = upper * ALIAS_CS[i] + lower * ALIAS_CA[i];
+        out[boundary + i] = lower * ALIAS_CS[i] - upper * ALIAS_CA[i];
+      }
+    }
+    out.fill(0, cutoffLine);
+  };
+
+  const fitGranule = (spectrum: Float64Array, quantized: Int32Array, granule: GranuleInfo, budget: number) => {
+    let energy = 0;
+    for (let i = 0; i < GRANULE_SIZE; i++) {
+      xr34[i] = Math.pow(Math.abs(spectrum[i]), 0.75);
+      energy += xr34[i];
+    }
+    if (energy === 0) {
+      quantized.fill(0);
+      granule.globalGain = 210;
+      layoutGranule(quantized, sfb, granule);
+      return;
+    }
+    // Smallest global gain (finest quantiser) whose encoding still fits the budget
+    let low = 0;
+    let high = 255;
+    while (low < high) {
+      const gain = (low + high) >> 1;
+      const max = quantize(xr34, gain, quantized);
+      if (max <= MAX_QUANTIZED && layoutGranule(quantized, sfb, granule) <= budget) {
+        high = gain;
+      } else {
+        low = gain + 1;
+      }
+    }
+    granule.globalGain = low;
+    quantize(xr34, low, quantized);
+    layoutGranule(quantized, sfb, granule);
+  };
+
+  const encodeFrame = (writer: BitWriter) => {
+    for (let granule = 0; granule < 2; granule++) {
+      for (let slot = 0; slot < SLOTS_PER_GRANULE; slot++) {
+        for (let channel = 0; channel < channels; channel++) {
+          analyse(channel, pending[channel], granule * GRANULE_SIZE + slot * 32, slot);
+        }
+        historyOffset = (historyOffset - 32) & 511;
+      }
+      for (let channel = 0; channel < channels; channel++) {
+        transform(channel, xr[granule][channel]);
+      }
+    }
+
+    let padding = 0;
+    paddingAccumulator += frameRemainder;
+    if (paddingAccumulator >= sampleRate) {
+      paddingAccumulator -= sampleRate;
+      padding = 1;
+    }
+    const frameBytes = frameBytesBase + padding;
+    const mainDataBits = (frameBytes - 4 - sideInfoBytes) * 8;
+    const budget = Math.min(MAX_PART23_BITS, Math.floor(mainDataBits / (2 * channels)));
+
+    for (let granule = 0; granule < 2; granule++) {
+      for (let channel = 0; channel < channels; channel++) {
+        fitGranule(xr[granule][channel], ix[granule][channel], info[granule][channel], budget);
+      }
+    }
+
+    const frameStart = writer.bitLength / 8;
+    writer.write(0x7ff, 11); // sync
+    writer.write(0b11, 2); // MPEG-1
+    writer.write(0b01, 2); // Layer III
+    writer.write(1, 1); // no CRC
+    writer.write(bitRateIndex, 4);
+    writer.write(sampleRateIndex, 2);
+    writer.write(padding, 1);
+    writer.write(0, 1); // private
+    writer.write(channels === 1 ? 0b11 : 0b00, 2); // mono or plain stereo
+    writer.write(0, 2); // mode extension
+    writer.write(0, 1); // copyright
+    writer.write(1, 1); // original
+    writer.write(0, 2); // emphasis
+
+    writer.write(0, 9); // main_data_begin: no bit reservoir
+    writer.write(0, channels === 1 ? 5 : 3);
+    writer.write(0, 4 * channels); // scfsi
+    for (let granule = 0; granule < 2; granule++) {
+      for (let channel = 0; channel < channels; channel++) {
+        const g = info[granule][channel];
+        writer.write(g.part23Length, 12);
+        writer.write(g.bigValues, 9);
+        writer.write(g.globalGain, 8);
+        writer.write(0, 4); // scalefac_compress: no scalefactors
+        writer.write(0, 1); // window_switching_flag: long blocks only
+        writer.write(g.tableSelect[0], 5);
+        writer.write(g.tableSelect[1], 5);
+        writer.write(g.tableSelect[2], 5);
+        writer.write(g.region0Count, 4);
+        writer.write(g.region1Count, 3);
+        writer.write(0, 1); // preflag
+        writer.write(0, 1); // scalefac_scale
+        writer.write(g.count1TableSelect, 1);
+      }
+    }
+
+    for (let granule = 0; granule < 2; granule++) {
+      for (let channel = 0; channel < channels; channel++) {
+        writeGranuleData(writer, ix[granule][channel], xr[granule][channel], sfb, info[granule][channel]);
+      }
+    }
+    writer.padTo(frameStart + frameBytes);
+  };
+
+  const encode = (channelData: Float32Array[]): Uint8Array => {
+    const length = channelData[0]?.length || 0;
+    const writer = new BitWriter(Math.ceil(length / SAMPLES_PER_FRAME + 1) * (frameBytesBase + 1));
+    let read = 0;
+    while (read < length) {
+      const take = Math.min(SAMPLES_PER_FRAME - pendingLength, length - read);
+      for (let channel = 0; channel < channels; channel++) {
+        const source = channelData[Math.min(channel, channelData.length - 1)];
+        pending[channel].set(source.subarray(read, read + take), pendingLength);
+      }
+      pendingLength += take;
+      read += take;
+      if (pendingLength === SAMPLES_PER_FRAME) {
+        encodeFrame(writer);
+        pendingLength = 0;
+      }
+    }
+    return writer.finish();
+  };
+
+  const flush = (): Uint8Array => {
+    const writer = new BitWriter(3 * (frameBytesBase + 1));
+    // One extra frame of silence pushes the filterbank and MDCT delay out
+    const framesLeft = pendingLength > 0 ? 2 : 1;
+    for (let frame = 0; frame < framesLeft; frame++) {
+      for (let channel = 0; channel < channels; channel++) {
+        pending[channel].fill(0, pendingLength);
+      }
+      encodeFrame(writer);
+      pendingLength = 0;
+    }
+    return writer.finish();
+  };
+
+  return { encode, flush };
+};
@@ -0,0 +1,230 @@
+import { BlobReader } from './blobReader';
+import type { Chapter } from './chapters';
+
+// Nero-style chapter list (moov/udta/chpl), which ffmpeg, VLC and most
+// podcast players read from M4A files. Growing moov moves everything after
+// it, so absolute sample offsets (stco/co64) are shifted to match. Fragmented
+// files address their samples relative to each moof; only the moof offsets in
+// an mfra index move. Fragments with explicit absolute base offsets in tfhd are
+// returned unchanged rather than risk a broken file.
+
+interface Box {
+  type: string;
+  start: number;
+  headerSize: number;
+  size: number;
+}
+
+const CONTAINERS = new Set(['trak', 'mdia', 'minf', 'stbl']);
+// 100 ns units
+const CHPL_TIMESCALE = 10_000;
+const TFHD_BASE_DATA_OFFSET = 0x000001;
+const utf8 = new TextEncoder();
+
+const readType = (bytes: Uint8Array, offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+function readBoxHeader(bytes: Uint8Array, offset: number, limit: number): Box | null {
+  if (offset + 8 > bytes.length) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let size = view.getUint32(offset);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > bytes.length) return null;
+    size = view.getUint32(offset + 8) * 2 ** 32 + view.getUint32(offset + 12);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = limit - offset;
+  }
+  if (size < headerSize) return null;
+  return { type: readType(bytes, offset + 4), start: offset, headerSize, size };
+}
+
+function children(bytes: Uint8Array, box: Box): Box[] {
+  const result: Box[] = [];
+  const end = box.start + box.size;
+  let offset = box.start + box.headerSize;
+  while (offset < end) {
+    const child = readBoxHeader(bytes, offset, end);
+    if (!child || child.start + child.size > end) break;
+    result.push(child);
+    offset += child.size;
+  }
+  return result;
+}
+
+async function topLevelBoxes(reader: BlobReader): Promise<Box[]> {
+  const boxes: Box[] = [];
+  let offset = 0;
+  while (offset < reader.size) {
+    const bytes = await reader.bytes(offset, 16);
+    const header = readBoxHeader(bytes, 0, reader.size - offset);
+    if (!header) break;
+    boxes.push({ ...header, start: offset });
+    offset += header.size;
+  }
+  return boxes;
+}
+
+async function hasAbsoluteFragmentOffsets(reader: BlobReader, boxes: Box[]): Promise<boolean> {
+  const moof = boxes.find((box) => box.type === 'moof');
+  if (!moof) return false;
+  const bytes = await reader.bytes(moof.start, moof.size);
+  const root = { ...moof, start: 0 };
+  for (const traf of children(bytes, root).filter((box) => box.type === 'traf')) {
+    const tfhd = children(bytes, traf).find((box) => box.type === 'tfhd');
+    if (!tfhd) continue;
+    const at = tfhd.start + tfhd.headerSize;
+    const flags = (bytes[at + 1] << 16) | (bytes[at + 2] << 8) | bytes[at + 3];
+    if (flags & TFHD_BASE_DATA_OFFSET) return true;
+  }
+  return false;
+}
+
+// Adds delta to every chunk offset at or past `from`. Returns false when a
+// 32-bit stco entry would overflow.
+function shiftChunkOffsets(bytes: Uint8Array, box: Box, from: number, delta: number): boolean {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (const child of children(bytes, box)) {
+    if (CONTAINERS.has(child.type)) {
+      if (!shiftChunkOffsets(bytes, child, from, delta)) return false;
+      continue;
+    }
+    if (child.type !== 'stco' && child.type !== 'co64') continue;
+    const countOffset = child.start + child.headerSize + 4;
+    const count = view.getUint32(countOffset);
+    for (let i = 0; i < count; i++) {
+      if (child.type === 'stco') {
+        const at = countOffset + 4 + i * 4;
+        const value = view.getUint32(at);
+        if (value < from) continue;
+        if (value + delta > 0xffffffff) return false;
+        view.setUint32(at, value + delta);
+      } else {
+        const at = countOffset + 4 + i * 8;
+        const value = view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4);
+        if (value < from) continue;
+        const shifted = value + delta;
+        view.setUint32(at, Math.floor(shifted / 2 ** 32));
+        view.setUint32(at + 4, shifted % 2 ** 32);
+      }
+    }
+  }
+  return true;
+}
+
+// tfra entries point at moof boxes by absolute file offset
+function shiftFragmentIndex(bytes: Uint8Array, mfra: Box, from: number, delta: number) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (const tfra of children(bytes, mfra).filter((box) => box.type === 'tfra')) {
+    const body = tfra.start + tfra.headerSize;
+    const wide = bytes[body] === 1;
+    const sizes = view.getUint32(body + 8);
+    // traf, trun and sample numbers are each stored in 1-4 bytes
+    const numbersLength = ((sizes >> 4) & 3) + ((sizes >> 2) & 3) + (sizes & 3) + 3;
+    const count = view.getUint32(body + 12);
+    const entryLength = (wide ? 16 : 8) + numbersLength;
+    for (let i = 0; i < count; i++) {
+      const at = body + 16 + i * entryLength + (wide ? 8 : 4);
+      if (wide) {
+        const value = view.getUint32(at) * 2 ** 32 + view.getUint32(at + 4);
+        if (value < from) continue;
+        const shifted = value + delta;
+        view.setUint32(at, Math.floor(shifted / 2 ** 32));
+        view.setUint32(at + 4, shifted % 2 ** 32);
+      } else {
+        const value = view.getUint32(at);
+        if (value >= from) view.setUint32(at, value + delta);
+      }
+    }
+  }
+}
+
+function boxBytes(type: string, payload: Uint8Array[]): Uint8Array {
+  const size = 8 + payload.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(size);
+  new DataView(out.buffer).setUint32(0, size);
+  out.set(utf8.encode(type), 4);
+  let offset = 8;
+  for (const part of payload) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+// Titles are length-prefixed with one byte; cut on a character boundary
+function chapterTitle(title: string): Uint8Array {
+  let bytes = utf8.encode(title);
+  if (bytes.length > 255) {
+    let end = 255;
+    while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+    bytes = bytes.subarray(0, end);
+  }
+  return bytes;
+}
+
+function chplBox(chapters: Chapter[]): Uint8Array {
+  const entries = chapters.map((chapter) => {
+    const title = chapterTitle(chapter.title);
+    const entry = new Uint8Array(9 + title.length);
+    const view = new DataView(entry.buffer);
+    const start = Math.round(chapter.startMs * CHPL_TIMESCALE);
+    view.setUint32(0, Math.floor(start / 2 ** 32));
+    view.setUint32(4, start % 2 ** 32);
+    entry[8] = title.length;
+    entry.set(title, 9);
+    return entry;
+  });
+  // Version 1, no flags, 4 reserved bytes, then a one-byte chapter count
+  const head = new Uint8Array([1, 0, 0, 0, 0, 0, 0, 0, entries.length]);
+  return boxBytes('chpl', [head, ...entries]);
+}
+
+export async function addMp4Chapters(blob: Blob, chapters: Chapter[]): Promise<Blob> {
+  const reader = new BlobReader(blob);
+  const boxes = await topLevelBoxes(reader);
+  const moov = boxes.find((box) => box.type === 'moov');
+  if (!moov || (await hasAbsoluteFragmentOffsets(reader, boxes))) {
+    console.warn('MP4 layout not supported for chapters, chapters were not embedded');
+    return blob;
+  }
+
+  // moov is rebuilt from its children with a plain 8-byte header
+  const moovBytes = await reader.bytes(moov.start, moov.size);
+  const parts: Uint8Array[] = [];
+  const chpl = chplBox(chapters.slice(0, 255));
+  let udtaFound = false;
+  for (const child of children(moovBytes, { ...moov, start: 0 })) {
+    const bytes = moovBytes.subarray(child.start, child.start + child.size);
+    if (child.type !== 'udta') {
+      parts.push(bytes);
+      continue;
+    }
+    udtaFound = true;
+    const kept = children(moovBytes, child)
+      .filter((box) => box.type !== 'chpl')
+      .map((box) => moovBytes.subarray(box.start, box.start + box.size));
+    parts.push(boxBytes('udta', [...kept, chpl]));
+  }
+  if (!udtaFound) parts.push(boxBytes('udta', [chpl]));
+
+  const rebuilt = boxBytes('moov', parts);
+  const delta = rebuilt.length - moov.size;
+  const rebuiltRoot: Box = { type: 'moov', start: 0, headerSize: 8, size: rebuilt.length };
+  if (!shiftChunkOffsets(rebuilt, rebuiltRoot, moov.start + moov.size, delta)) {
+    console.warn('MP4 chunk offsets would overflow, chapters were not embedded');
+    return blob;
+  }
+
+  const moovEnd = moov.start + moov.size;
+  const mfra = boxes.find((box) => box.type === 'mfra' && box.start >= moovEnd);
+  if (!mfra) {
+    return new Blob([blob.slice(0, moov.start), rebuilt, blob.slice(moovEnd)], { type: blob.type });
+  }
+  const index = (await reader.bytes(mfra.start, mfra.size)).slice();
+  shiftFragmentIndex(index, { ...mfra, start: 0 }, moovEnd, delta);
+  return new Blob(
+    [blob.slice(0, moov.start), rebuilt, blob.slice(moovEnd, mfra.start), index, blob.slice(mfra.start + mfra.size)],
+    { type: blob.type },
+  );
+}
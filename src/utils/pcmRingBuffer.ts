@@ -0,0 +1,63 @@
+// Fixed-size planar PCM buffer. Positions are absolute sample counts since the
+// buffer was created, so a reader can always tell which stretch of the stream
+// it is looking at. When a writer outruns the reader the oldest samples are
+// overwritten and the read position jumps forward.
+export class PcmRingBuffer {
+  private readonly data: Float32Array[];
+  private readIndex = 0;
+  private writeIndex = 0;
+
+  constructor(
+    readonly channelCount: number,
+    readonly capacity: number,
+  ) {
+    this.data = Array.from({ length: channelCount }, () => new Float32Array(capacity));
+  }
+
+  // Unread samples per channel
+  get available() {
+    return this.writeIndex - this.readIndex;
+  }
+
+  // Absolute index of the next unread sample
+  get readPosition() {
+    return this.readIndex;
+  }
+
+  write(channels: Float32Array[]) {
+    const length = channels[0]?.length ?? 0;
+    const skip = Math.max(0, length - this.capacity);
+    for (let c = 0; c < this.channelCount; c++) {
+      const source = (channels[c] ?? channels[0]).subarray(skip);
+      const start = (this.writeIndex + skip) % this.capacity;
+      const first = Math.min(source.length, this.capacity - start);
+      this.data[c].set(source.subarray(0, first), start);
+      this.data[c].set(source.subarray(first), 0);
+    }
+    this.writeIndex += length;
+    this.readIndex = Math.max(this.readIndex, this.writeIndex - this.capacity);
+  }
+
+  // Copies `count` unread samples starting `offset` samples past the read position
+  peek(count: number, offset = 0): Float32Array[] {
+    const length = Math.max(0, Math.min(count, this.available - offset));
+    const start = (this.readIndex + offset) % this.capacity;
+    const first = Math.min(length, this.capacity - start);
+    return this.data.map((channel) => {
+      const out = new Float32Array(length);
+      out.set(channel.subarray(start, start + first));
+      out.set(channel.subarray(0, length - first), first);
+      return out;
+    });
+  }
+
+  read(count: number): Float32Array[] {
+    const samples = this.peek(count);
+    this.skip(samples[0]?.length ?? 0);
+    return samples;
+  }
+
+  skip(count: number) {
+    this.readIndex += Math.max(0, Math.min(count, this.available));
+  }
+}
@@ -0,0 +1,62 @@
+// Streaming windowed-sinc resampler for one channel of audio. Input can arrive
+// in blocks of any size (128-frame render quanta in the PCM tap); the filter
+// history carries across calls, so the output is identical to resampling the
+// whole signal at once and has no seams at block boundaries. Downsampling
+// low-passes at 90% of the output Nyquist frequency to keep aliasing out.
+
+const TABLE_RESOLUTION = 128;
+
+export class StreamingResampler {
+  private readonly step: number;
+  private readonly halfTaps: number;
+  private readonly kernel: Float32Array;
+  // Unconsumed input, starting halfTaps - 1 samples before the next output position
+  private buffer: Float32Array;
+  private position: number;
+
+  constructor(inputRate: number, outputRate: number, halfTaps = 16) {
+    this.step = inputRate / outputRate;
+    this.halfTaps = halfTaps;
+    const cutoff = Math.min(1, outputRate / inputRate) * 0.9;
+    const size = 2 * halfTaps * TABLE_RESOLUTION + 1;
+    this.kernel = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const x = i / TABLE_RESOLUTION - halfTaps;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / halfTaps);
+      this.kernel[i] = cutoff * sinc * window;
+    }
+    // Leading zeros stand in for the signal before the first sample
+    this.buffer = new Float32Array(halfTaps);
+    this.position = halfTaps;
+  }
+
+  process(input: Float32Array): Float32Array {
+    const joined = new Float32Array(this.buffer.length + input.length);
+    joined.set(this.buffer);
+    joined.set(input, this.buffer.length);
+
+    const halfTaps = this.halfTaps;
+    const count = Math.max(0, Math.ceil((joined.length - halfTaps - this.position) / this.step));
+    const output = new Float32Array(count);
+    let position = this.position;
+    for (let n = 0; n < count; n++) {
+      const base = Math.floor(position);
+      let sum = 0;
+      let weight = 0;
+      for (let i = base - halfTaps + 1; i <= base + halfTaps; i++) {
+        const tap = this.kernel[Math.round((position - i + halfTaps) * TABLE_RESOLUTION)];
+        sum += joined[i] * tap;
+        weight += tap;
+      }
+      // Normalising by the tap sum keeps the DC gain at exactly 1
+      output[n] = weight !== 0 ? sum / weight : 0;
+      position += this.step;
+    }
+
+    const keepFrom = Math.floor(position) - halfTaps + 1;
+    this.buffer = joined.slice(keepFrom);
+    this.position = position - keepFrom;
+    return output;
+  }
+}
@@ -0,0 +1,69 @@
+// Recording timeline driven by the audio clock. AudioContext.currentTime is the
+// number of frames the context has rendered divided by its sample rate, and the
+// capture mix is rendered by that same context, so the timeline advances
+// exactly as audio reaches the recorders. Unlike a setInterval counter it does
+// not drift and keeps counting while a background tab's timers are throttled;
+// throttling only delays when the UI reads it.
+//
+// Without an AudioContext the clock falls back to performance.now().
+export class SessionClock {
+  private startedAt = 0;
+  private accumulatedMs = 0;
+  // Timeline position where the current (or last) run began
+  private runStartMs = 0;
+  private started = false;
+  private running = false;
+  private readonly readSeconds: () => number;
+  // Rate of the context, so timeline positions can be turned into frame counts
+  readonly sampleRate: number | null;
+
+  constructor(context?: BaseAudioContext | null) {
+    this.readSeconds = context ? () => context.currentTime : () => performance.now() / 1000;
+    this.sampleRate = context?.sampleRate ?? null;
+  }
+
+  get isRunning() {
+    return this.running;
+  }
+
+  start() {
+    this.accumulatedMs = 0;
+    this.runStartMs = 0;
+    this.startedAt = this.readSeconds();
+    this.started = true;
+    this.running = true;
+  }
+
+  // Paused time is left out of the timeline, as it is left out of the recording
+  pause() {
+    if (!this.running) return;
+    this.accumulatedMs += (this.readSeconds() - this.startedAt) * 1000;
+    this.running = false;
+  }
+
+  resume() {
+    if (this.running) return;
+    this.runStartMs = this.accumulatedMs;
+    this.startedAt = this.readSeconds();
+    this.running = true;
+  }
+
+  // Recorded milliseconds since start()
+  elapsedMs(): number {
+    return this.accumulatedMs + (this.running ? (this.readSeconds() - this.startedAt) * 1000 : 0);
+  }
+
+  // Recorded frames at the context rate; null without an AudioContext
+  elapsedFrames(): number | null {
+    return this.sampleRate ? Math.round((this.elapsedMs() * this.sampleRate) / 1000) : null;
+  }
+
+  // Timeline position of a moment in context time, for audio tapped from the
+  // same graph. Null for moments outside the current (or last) run, which were
+  // never recorded, and for clocks without an AudioContext.
+  timelineMsAt(contextSeconds: number): number | null {
+    if (!this.sampleRate || !this.started || contextSeconds < this.startedAt) return null;
+    const ms = this.runStartMs + (contextSeconds - this.startedAt) * 1000;
+    return this.running || ms <= this.accumulatedMs ? ms : null;
+  }
+}
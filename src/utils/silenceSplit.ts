@@ -0,0 +1,43 @@
+// Cuts a long recording into uploads the server accepts. Each chunk is at most
+// maxMs long and ends at the quietest frame between minMs and maxMs, so a cut
+// rarely falls in the middle of a word.
+
+export interface SilenceSplitOptions {
+  minMs?: number;
+  maxMs?: number;
+  frameMs?: number;
+}
+
+// Sample range [start, end)
+export interface PcmSpan {
+  start: number;
+  end: number;
+}
+
+export function splitAtSilence(
+  samples: Float32Array,
+  sampleRate: number,
+  { minMs = 15_000, maxMs = 30_000, frameMs = 50 }: SilenceSplitOptions = {},
+): PcmSpan[] {
+  const maxSamples = Math.max(1, Math.round((maxMs * sampleRate) / 1000));
+  const minSamples = Math.min(maxSamples, Math.round((minMs * sampleRate) / 1000));
+  const frameSamples = Math.max(1, Math.round((frameMs * sampleRate) / 1000));
+  const spans: PcmSpan[] = [];
+  let start = 0;
+  while (samples.length - start > maxSamples) {
+    let cut = start + maxSamples;
+    let quietest = Infinity;
+    for (let frame = start + minSamples; frame + frameSamples <= start + maxSamples; frame += frameSamples) {
+      let energy = 0;
+      for (let i = frame; i < frame + frameSamples; i++) energy += samples[i] * samples[i];
+      if (energy < quietest) {
+        quietest = energy;
+        cut = frame + Math.floor(frameSamples / 2);
+      }
+    }
+    spans.push({ start, end: cut });
+    start = cut;
+  }
+  if (start < samples.length) spans.push({ start, end: samples.length });
+  return spans;
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { SpeechDetector } from './speechDetector';
+
+const SAMPLE_RATE = 16_000;
+// 20 ms frames, as the recorder hands them over
+const FRAME_SAMPLES = 320;
+
+type Signal = (sample: number) => number;
+
+// A voiced sound: 150 Hz fundamental with a few falling harmonics
+const voice =
+  (amplitude = 0.1): Signal =>
+  (n) =>
+    [1, 0.5, 0.3, 0.2].reduce(
+      (sum, gain, i) => sum + amplitude * gain * Math.sin((2 * Math.PI * 150 * (i + 1) * n) / SAMPLE_RATE),
+      0,
+    );
+
+// Deterministic white noise, uniform in [-amplitude, amplitude]
+const noise = (amplitude: number): Signal => {
+  let seed = 1;
+  return () => {
+    seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31;
+    return amplitude * ((seed / 2 ** 31) * 2 - 1);
+  };
+};
+
+const hum =
+  (amplitude: number): Signal =>
+  (n) =>
+    amplitude * Math.sin((2 * Math.PI * 50 * n) / SAMPLE_RATE);
+
+const silence: Signal = () => 0;
+
+// Feeds `ms` of the signal frame by frame and returns each frame's decision
+function run(detector: SpeechDetector, signal: Signal, ms: number, offset = { sample: 0 }): boolean[] {
+  const decisions: boolean[] = [];
+  for (let frame = 0; frame < ms / 20; frame++) {
+    const samples = Float32Array.from({ length: FRAME_SAMPLES }, () => signal(offset.sample++));
+    decisions.push(detector.analyse(samples).speech);
+  }
+  return decisions;
+}
+
+const newDetector = () => new SpeechDetector({ sampleRate: SAMPLE_RATE });
+
+describe('SpeechDetector', () => {
+  it('detects a voice over a quiet room after two frames', () => {
+    const detector = newDetector();
+    const room = noise(0.001);
+    const offset = { sample: 0 };
+    expect(run(detector, room, 500, offset)).not.toContain(true);
+
+    const decisions = run(detector, (n) => voice()(n) + room(n), 200, offset);
+    expect(decisions.slice(0, 2)).toEqual([false, true]);
+    expect(decisions.slice(1)).not.toContain(false);
+  });
+
+  it('holds speech through a short gap, then lets go after the hangover', () => {
+    const detector = newDetector();
+    run(detector, silence, 200);
+    run(detector, voice(), 300);
+
+    const decisions = run(detector, silence, 400);
+    // 200 ms hangover
+    expect(decisions.slice(0, 10)).not.toContain(false);
+    expect(decisions.slice(10)).not.toContain(true);
+  });
+
+  it('ignores a single loud click', () => {
+    const detector = newDetector();
+    run(detector, silence, 200);
+    const decisions = [...run(detector, voice(0.5), 20), ...run(detector, silence, 200)];
+
+    expect(decisions).not.toContain(true);
+  });
+
+  it('does not take loud broadband noise for speech', () => {
+    const detector = newDetector();
+    run(detector, silence, 200);
+    const frame = Float32Array.from({ length: FRAME_SAMPLES }, noise(0.2));
+    const features = detector.analyse(frame);
+
+    expect(features.flatness).toBeGreaterThan(0.35);
+    expect(run(detector, noise(0.2), 500)).not.toContain(true);
+  });
+
+  it('does not take mains hum for speech', () => {
+    const detector = newDetector();
+    run(detector, silence, 200);
+    const frame = Float32Array.from({ length: FRAME_SAMPLES }, (_, n) => hum(0.2)(n));
+    const features = detector.analyse(frame);
+
+    expect(features.speechBandRatio).toBeLessThan(0.5);
+    expect(run(detector, hum(0.2), 500)).not.toContain(true);
+  });
+
+  it('ignores a voice too quiet to transcribe, however quiet the room', () => {
+    const detector = newDetector();
+    run(detector, silence, 200);
+
+    expect(run(detector, voice(0.001), 500)).not.toContain(true);
+  });
+
+  it('raises the noise floor slowly under a steady sound', () => {
+    const detector = newDetector();
+    run(detector, noise(0.001), 200);
+    const before = detector.analyse(new Float32Array(FRAME_SAMPLES).fill(0.001)).noiseFloorDb;
+    run(detector, voice(), 1000);
+    const after = detector.analyse(Float32Array.from({ length: FRAME_SAMPLES }, voice())).noiseFloorDb;
+
+    expect(after - before).toBeGreaterThan(0.5);
+    expect(after - before).toBeLessThan(2);
+  });
+});
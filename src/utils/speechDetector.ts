@@ -0,0 +1,153 @@
+// Frame-level voice activity detection for 16 kHz PCM (any rate works). A frame
+// counts as speech when it is clearly louder than the tracked noise floor and
+// its spectrum looks like a voice rather than noise: tonal (low spectral
+// flatness, as in voiced sounds) and mostly inside the 80-4000 Hz voice band,
+// which leaves out broadband noise as well as mains hum and rumble. Decisions
+// are smoothed with a short attack, so clicks do not register, and a hangover
+// that bridges the unvoiced consonants between voiced sounds.
+
+export interface SpeechDetectorOptions {
+  sampleRate: number;
+  // How far above the noise floor speech has to be
+  marginDb?: number;
+  // Frames quieter than this are never speech, however quiet the room is
+  minLevelDb?: number;
+  hangoverMs?: number;
+}
+
+export interface SpeechFrameFeatures {
+  levelDb: number;
+  noiseFloorDb: number;
+  // 0 for a pure tone, about 0.56 for white noise
+  flatness: number;
+  // Share of the energy inside the voice band
+  speechBandRatio: number;
+  speech: boolean;
+}
+
+const FFT_SIZE = 512;
+const SILENCE_DB = -100;
+const MAX_SPEECH_FLATNESS = 0.35;
+const MIN_SPEECH_BAND_RATIO = 0.5;
+const SPEECH_BAND_HZ: [number, number] = [80, 4000];
+// Speech has to hold for this many consecutive frames before it counts
+const ATTACK_FRAMES = 2;
+// The floor follows quieter frames quickly and louder ones by about 1 dB/s
+const FLOOR_FALL = 0.2;
+const FLOOR_RISE_DB_PER_SECOND = 1;
+
+// In-place iterative radix-2 FFT
+function fft(re: Float32Array, im: Float32Array) {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+export class SpeechDetector {
+  private readonly sampleRate: number;
+  private readonly marginDb: number;
+  private readonly minLevelDb: number;
+  private readonly hangoverMs: number;
+  private readonly re = new Float32Array(FFT_SIZE);
+  private readonly im = new Float32Array(FFT_SIZE);
+  private noiseFloorDb: number | null = null;
+  private candidateFrames = 0;
+  private msSinceSpeech = Infinity;
+
+  constructor({ sampleRate, marginDb = 10, minLevelDb = -55, hangoverMs = 200 }: SpeechDetectorOptions) {
+    this.sampleRate = sampleRate;
+    this.marginDb = marginDb;
+    this.minLevelDb = minLevelDb;
+    this.hangoverMs = hangoverMs;
+  }
+
+  analyse(samples: Float32Array): SpeechFrameFeatures {
+    const frameMs = (samples.length * 1000) / this.sampleRate;
+    const levelDb = this.level(samples);
+    const { flatness, speechBandRatio } = this.spectrum(samples);
+
+    const floor = this.noiseFloorDb ?? levelDb;
+    const candidate =
+      levelDb >= this.minLevelDb &&
+      levelDb >= floor + this.marginDb &&
+      flatness <= MAX_SPEECH_FLATNESS &&
+      speechBandRatio >= MIN_SPEECH_BAND_RATIO;
+    this.noiseFloorDb =
+      levelDb < floor
+        ? floor + FLOOR_FALL * (levelDb - floor)
+        : floor + Math.min(levelDb - floor, (FLOOR_RISE_DB_PER_SECOND * frameMs) / 1000);
+
+    this.candidateFrames = candidate ? this.candidateFrames + 1 : 0;
+    if (this.candidateFrames >= ATTACK_FRAMES) this.msSinceSpeech = 0;
+    else this.msSinceSpeech += frameMs;
+
+    return {
+      levelDb,
+      noiseFloorDb: floor,
+      flatness,
+      speechBandRatio,
+      speech: this.msSinceSpeech <= this.hangoverMs,
+    };
+  }
+
+  private level(samples: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const meanSquare = sum / (samples.length || 1);
+    return meanSquare > 0 ? Math.max(SILENCE_DB, 10 * Math.log10(meanSquare)) : SILENCE_DB;
+  }
+
+  // Hann-windowed power spectrum of the frame (zero-padded or truncated to FFT_SIZE)
+  private spectrum(samples: Float32Array): { flatness: number; speechBandRatio: number } {
+    const length = Math.min(samples.length, FFT_SIZE);
+    this.re.fill(0);
+    this.im.fill(0);
+    for (let i = 0; i < length; i++) {
+      this.re[i] = samples[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1 || 1)));
+    }
+    fft(this.re, this.im);
+
+    const binHz = this.sampleRate / FFT_SIZE;
+    const [bandLow, bandHigh] = SPEECH_BAND_HZ;
+    let total = 0;
+    let band = 0;
+    let logSum = 0;
+    const bins = FFT_SIZE / 2;
+    // DC is left out; it says nothing about the content
+    for (let k = 1; k <= bins; k++) {
+      const power = this.re[k] * this.re[k] + this.im[k] * this.im[k] + 1e-12;
+      total += power;
+      logSum += Math.log(power);
+      const hz = k * binHz;
+      if (hz >= bandLow && hz <= bandHigh) band += power;
+    }
+    return {
+      flatness: Math.exp(logSum / bins) / (total / bins),
+      speechBandRatio: band / total,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { SpeechSegmenter, type SegmentAction, type SpeechSegmenterOptions } from './speechSegmenter';
+
+// One sample per millisecond keeps sample counts and times the same
+const SAMPLE_RATE = 1000;
+const FRAME_MS = 20;
+
+interface Span {
+  ms: number;
+  speech: boolean;
+  levelDb?: number;
+}
+
+const speech = (ms: number, levelDb = -20): Span => ({ ms, speech: true, levelDb });
+const silence = (ms: number, levelDb = -60): Span => ({ ms, speech: false, levelDb });
+
+// Pushes the spans as 20 ms frames, then flushes, and applies every action to
+// a per-sample record of the stream so each segment can be checked for speech
+function segment(options: Omit<SpeechSegmenterOptions, 'sampleRate'>, spans: Span[]) {
+  const segmenter = new SpeechSegmenter({ sampleRate: SAMPLE_RATE, ...options });
+  const stream: boolean[] = [];
+  const actions: SegmentAction[] = [];
+  for (const span of spans) {
+    for (let ms = 0; ms < span.ms; ms += FRAME_MS) {
+      stream.push(...Array<boolean>(FRAME_MS).fill(span.speech));
+      actions.push(...segmenter.push(FRAME_MS, span.speech, span.levelDb));
+    }
+  }
+  actions.push(...segmenter.flush());
+
+  const segments: { startMs: number; ms: number; hasSpeech: boolean }[] = [];
+  let position = 0;
+  for (const action of actions) {
+    if (action.type === 'send') {
+      const samples = stream.slice(position, position + action.samples);
+      segments.push({ startMs: position, ms: action.samples, hasSpeech: samples.includes(true) });
+    }
+    position += action.samples;
+  }
+  return { segments, consumed: position, total: stream.length };
+}
+
+describe('SpeechSegmenter', () => {
+  it('cuts at the first pause once the segment is long enough', () => {
+    const { segments } = segment({ minSegmentMs: 2000, maxSegmentMs: 10_000 }, [
+      speech(1000),
+      // Too early to cut here
+      silence(400),
+      speech(1500),
+      silence(400),
+      speech(1000),
+    ]);
+
+    // Half the 300 ms pause stays with the segment as its tail
+    expect(segments[0]).toMatchObject({ startMs: 0, ms: 3050 });
+    // The next one starts with its pre-roll and ends with the stream
+    expect(segments[1]).toMatchObject({ startMs: 3100, ms: 1200 });
+  });
+
+  it('ends a short utterance after a long silence', () => {
+    const { segments } = segment({ minSegmentMs: 2000, maxSegmentMs: 10_000 }, [speech(500), silence(1200)]);
+
+    expect(segments).toEqual([{ startMs: 0, ms: 650, hasSpeech: true }]);
+  });
+
+  it('cuts in the middle of the longest pause when the segment reaches its maximum', () => {
+    const { segments } = segment({ minSegmentMs: 1000, maxSegmentMs: 5000 }, [
+      speech(1200),
+      silence(200),
+      speech(1000),
+      silence(280),
+      speech(3000),
+    ]);
+
+    expect(segments[0]).toMatchObject({ startMs: 0, ms: 2540 });
+  });
+
+  it('ignores pauses that would leave less than the minimum in front', () => {
+    const { segments } = segment({ minSegmentMs: 2000, maxSegmentMs: 5000 }, [
+      speech(500),
+      silence(280),
+      speech(1500),
+      silence(100),
+      speech(3000),
+    ]);
+
+    expect(segments[0]).toMatchObject({ startMs: 0, ms: 2330 });
+  });
+
+  it('falls back to the quietest frame past the minimum when there is no pause', () => {
+    const { segments } = segment({ minSegmentMs: 2000, maxSegmentMs: 5000 }, [
+      speech(580),
+      // Quieter, but too early
+      speech(20, -50),
+      speech(2400),
+      speech(20, -35),
+      speech(2980),
+    ]);
+
+    expect(segments[0]).toMatchObject({ startMs: 0, ms: 3020 });
+  });
+
+  it('cuts at the first frame past the minimum when every frame is as loud', () => {
+    const { segments } = segment({ minSegmentMs: 2000, maxSegmentMs: 5000 }, [speech(6000)]);
+
+    expect(segments.map((s) => s.ms)).toEqual([2020, 3980]);
+  });
+
+  it('drops leading silence apart from the pre-roll', () => {
+    const { segments } = segment({ minSegmentMs: 1000, maxSegmentMs: 5000 }, [silence(1000), speech(1500)]);
+
+    expect(segments).toEqual([{ startMs: 800, ms: 1700, hasSpeech: true }]);
+  });
+
+  it('never sends a segment without speech', () => {
+    const spans = [silence(3000), speech(400), silence(2000), speech(2500), silence(300), speech(4000), silence(6000)];
+    const { segments, consumed, total } = segment({ minSegmentMs: 1000, maxSegmentMs: 3000 }, spans);
+
+    expect(segments.length).toBeGreaterThan(2);
+    for (const s of segments) expect(s.hasSpeech).toBe(true);
+    expect(consumed).toBe(total);
+  });
+
+  it('sends nothing for a stream of silence', () => {
+    const { segments, consumed, total } = segment({ minSegmentMs: 1000, maxSegmentMs: 3000 }, [silence(5000)]);
+
+    expect(segments).toEqual([]);
+    expect(consumed).toBe(total);
+  });
+});
@@ -0,0 +1,154 @@
+// Decides where to cut a live PCM stream into transcription segments, given a
+// speech/non-speech decision per frame. Segments end at natural pauses once
+// they are at least minSegmentMs long, or after a longer silence that ends the
+// utterance whatever its length. A segment that reaches maxSegmentMs is cut in
+// the middle of its longest pause, or failing that at its quietest frame. Audio
+// without any speech is dropped, apart from a short pre-roll kept in front of
+// each segment so the first syllable is not clipped.
+//
+// The segmenter only counts samples; the caller holds the audio (PcmRingBuffer)
+// and applies the returned actions to it in order.
+
+export interface SpeechSegmenterOptions {
+  sampleRate: number;
+  minSegmentMs: number;
+  maxSegmentMs: number;
+  // Non-speech this long counts as a pause to cut at
+  pauseMs?: number;
+  // Non-speech this long ends the segment even below minSegmentMs
+  endOfSpeechMs?: number;
+  prerollMs?: number;
+}
+
+export type SegmentAction = { type: 'send' | 'drop'; samples: number };
+
+interface Pause {
+  start: number;
+  end: number;
+}
+
+interface FrameLevel {
+  end: number;
+  levelDb: number;
+}
+
+export class SpeechSegmenter {
+  private readonly minSamples: number;
+  private readonly maxSamples: number;
+  private readonly pauseSamples: number;
+  private readonly endOfSpeechSamples: number;
+  private readonly prerollSamples: number;
+  // Everything below is relative to the first sample still held
+  private held = 0;
+  private hasSpeech = false;
+  private speechEnd = 0;
+  private pauses: Pause[] = [];
+  private levels: FrameLevel[] = [];
+
+  constructor({
+    sampleRate,
+    minSegmentMs,
+    maxSegmentMs,
+    pauseMs = 300,
+    endOfSpeechMs = 1000,
+    prerollMs = 200,
+  }: SpeechSegmenterOptions) {
+    const toSamples = (ms: number) => Math.round((ms * sampleRate) / 1000);
+    this.minSamples = toSamples(minSegmentMs);
+    this.maxSamples = Math.max(this.minSamples, toSamples(maxSegmentMs));
+    this.pauseSamples = toSamples(pauseMs);
+    this.endOfSpeechSamples = Math.max(this.pauseSamples, toSamples(endOfSpeechMs));
+    this.prerollSamples = toSamples(prerollMs);
+  }
+
+  push(samples: number, speech: boolean, levelDb = 0): SegmentAction[] {
+    const frameStart = this.held;
+    this.held += samples;
+    this.levels.push({ end: this.held, levelDb });
+    const actions: SegmentAction[] = [];
+
+    if (speech) {
+      if (!this.hasSpeech) {
+        // Leading silence beyond the pre-roll is not worth uploading
+        const drop = frameStart - this.prerollSamples;
+        if (drop > 0) actions.push(this.take('drop', drop));
+        this.hasSpeech = true;
+      } else if (frameStart > this.speechEnd) {
+        this.pauses.push({ start: this.speechEnd, end: frameStart });
+      }
+      this.speechEnd = this.held;
+    } else if (!this.hasSpeech) {
+      if (this.held > this.prerollSamples) actions.push(this.take('drop', this.held - this.prerollSamples));
+      return actions;
+    }
+
+    const silence = this.held - this.speechEnd;
+    const longEnough = this.speechEnd >= this.minSamples;
+    if ((silence >= this.pauseSamples && longEnough) || silence >= this.endOfSpeechSamples) {
+      // Half the pause stays with the segment as its tail
+      actions.push(...this.cut(this.speechEnd + Math.floor(this.pauseSamples / 2)));
+    } else if (this.held >= this.maxSamples) {
+      actions.push(...this.cut(this.bestCutBeforeMax(silence)));
+    }
+    return actions;
+  }
+
+  // Ends the stream: sends the open segment (up to its tail) and drops the rest
+  flush(): SegmentAction[] {
+    const actions: SegmentAction[] = [];
+    if (this.hasSpeech) {
+      actions.push(this.take('send', Math.min(this.held, this.speechEnd + Math.floor(this.pauseSamples / 2))));
+    }
+    if (this.held > 0) actions.push(this.take('drop', this.held));
+    this.hasSpeech = false;
+    this.speechEnd = 0;
+    this.pauses = [];
+    this.levels = [];
+    return actions;
+  }
+
+  // Middle of the longest pause that leaves at least minSegmentMs in front of
+  // it; without one, the end of the quietest frame past minSegmentMs
+  private bestCutBeforeMax(trailingSilence: number): number {
+    const candidates = [...this.pauses];
+    if (trailingSilence > 0) candidates.push({ start: this.speechEnd, end: this.held });
+    let best: Pause | null = null;
+    for (const pause of candidates) {
+      const middle = Math.floor((pause.start + pause.end) / 2);
+      if (middle < this.minSamples) continue;
+      if (!best || pause.end - pause.start > best.end - best.start) best = pause;
+    }
+    if (best) return Math.floor((best.start + best.end) / 2);
+    let quietest: FrameLevel | null = null;
+    for (const frame of this.levels) {
+      if (frame.end <= this.minSamples || frame.end > this.maxSamples) continue;
+      if (!quietest || frame.levelDb < quietest.levelDb) quietest = frame;
+    }
+    return quietest?.end ?? this.maxSamples;
+  }
+
+  private cut(at: number): SegmentAction[] {
+    const actions = [this.take('send', at)];
+    // Pauses the cut went through are gone with the sent audio
+    this.pauses = this.pauses.filter((pause) => pause.start >= 0);
+    if (this.speechEnd <= 0) {
+      // Only non-speech is left; keep at most a pre-roll of it
+      this.hasSpeech = false;
+      this.speechEnd = 0;
+      this.pauses = [];
+      if (this.held > this.prerollSamples) actions.push(this.take('drop', this.held - this.prerollSamples));
+    }
+    return actions;
+  }
+
+  // Hands `samples` from the front to the caller and rebases every offset
+  private take(type: SegmentAction['type'], samples: number): SegmentAction {
+    this.held -= samples;
+    this.speechEnd -= samples;
+    this.pauses = this.pauses.map((pause) => ({ start: pause.start - samples, end: pause.end - samples }));
+    this.levels = this.levels
+      .map((frame) => ({ end: frame.end - samples, levelDb: frame.levelDb }))
+      .filter((frame) => frame.end > 0);
+    return { type, samples };
+  }
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import type { RecordingTranscriptEntry } from '../services/recordingStore';
+import {
+  buildMeetingNotes,
+  buildPlainText,
+  buildSrt,
+  buildTranscript,
+  buildTranscriptJson,
+  buildWebVtt,
+} from './transcriptExport';
+
+// Wraps to lines of 40, 41 and 31 characters
+const LONG_TEXT =
+  'The quarterly numbers are in and revenue grew faster than we planned for this year so we will hire two more people';
+
+const entries: RecordingTranscriptEntry[] = [
+  {
+    text: 'Good morning everyone.',
+    speaker: 'Ana',
+    startMs: 0,
+    endMs: 1500,
+    language: 'en',
+    provider: 'whisper-server',
+  },
+  { text: 'Morning!', speaker: 'Ben', startMs: 1500, endMs: 2250, language: 'en' },
+  { text: 'Shall we start?', speaker: 'Ben', startMs: 3_723_456, endMs: 3_725_000 },
+];
+
+describe('buildSrt', () => {
+  it('numbers cues and writes HH:MM:SS,mmm times, with the speaker in the text', () => {
+    expect(buildSrt(entries)).toBe(
+      [
+        '1\n00:00:00,000 --> 00:00:01,500\nAna: Good morning everyone.',
+        '2\n00:00:01,500 --> 00:00:02,250\nBen: Morning!',
+        '3\n01:02:03,456 --> 01:02:05,000\nBen: Shall we start?',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('wraps at 42 characters and splits the time of a long entry by characters', () => {
+    expect(buildSrt([{ text: LONG_TEXT, startMs: 0, endMs: 11_200 }])).toBe(
+      [
+        '1\n00:00:00,000 --> 00:00:08,100\nThe quarterly numbers are in and revenue\ngrew faster than we planned for this year',
+        '2\n00:00:08,100 --> 00:00:11,200\nso we will hire two more people',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('ends cues without an end at the next entry, or after two seconds', () => {
+    const srt = buildSrt([
+      { text: 'First', startMs: 1000 },
+      { text: 'Second', startMs: 2500 },
+      { text: 'Untimed' },
+      { text: '   ', startMs: 2600 },
+    ]);
+
+    expect(srt).toBe('1\n00:00:01,000 --> 00:00:02,500\nFirst\n\n2\n00:00:02,500 --> 00:00:04,500\nSecond\n');
+  });
+
+  it('is empty without timed entries', () => {
+    expect(buildSrt([{ text: 'Untimed' }])).toBe('');
+  });
+});
+
+describe('buildWebVtt', () => {
+  it('writes HH:MM:SS.mmm times and speakers as voice spans', () => {
+    expect(buildWebVtt(entries.slice(0, 2))).toBe(
+      [
+        'WEBVTT',
+        '1\n00:00:00.000 --> 00:00:01.500\n<v Ana>Good morning everyone.</v>',
+        '2\n00:00:01.500 --> 00:00:02.250\n<v Ben>Morning!</v>',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('escapes markup in the speaker and the text', () => {
+    const vtt = buildWebVtt([{ text: 'if a < b && c > d', speaker: 'R&D <lead>', startMs: 0, endMs: 1000 }]);
+
+    expect(vtt).toContain('<v R&amp;D &lt;lead&gt;>if a &lt; b &amp;&amp; c &gt; d</v>');
+  });
+
+  it('keeps the header when there is nothing to show', () => {
+    expect(buildWebVtt([])).toBe('WEBVTT\n');
+  });
+});
+
+describe('buildPlainText', () => {
+  it("joins a speaker's consecutive entries into one paragraph", () => {
+    expect(buildPlainText([...entries, { text: 'No speaker here.' }])).toBe(
+      'Ana: Good morning everyone.\n\nBen: Morning! Shall we start?\n\nNo speaker here.\n',
+    );
+  });
+});
+
+describe('buildTranscriptJson', () => {
+  it('writes every entry with its times, speaker and engine', () => {
+    const json = JSON.parse(
+      buildTranscriptJson([entries[0], { text: 'Untimed' }], {
+        startedAt: Date.UTC(2024, 0, 2, 9),
+        durationMs: 2250.4,
+      }),
+    );
+
+    expect(json).toEqual({
+      version: 1,
+      startedAt: '2024-01-02T09:00:00.000Z',
+      durationMs: 2250,
+      segments: [
+        {
+          startMs: 0,
+          endMs: 1500,
+          start: '00:00:00.000',
+          end: '00:00:01.500',
+          speaker: 'Ana',
+          text: 'Good morning everyone.',
+          language: 'en',
+          provider: 'whisper-server',
+        },
+        {
+          startMs: null,
+          endMs: null,
+          start: null,
+          end: null,
+          speaker: null,
+          text: 'Untimed',
+          language: null,
+          provider: null,
+        },
+      ],
+    });
+  });
+});
+
+describe('buildMeetingNotes', () => {
+  it('lists the details and markers, then the transcript by speaker turn', () => {
+    const notes = buildMeetingNotes(entries, {
+      durationMs: 3_725_000,
+      markers: [
+        { id: 'b', label: 'Q&A *starts*', timeMs: 3_723_000 },
+        { id: 'a', label: 'Intro', timeMs: 0 },
+      ],
+    });
+
+    expect(notes).toBe(
+      [
+        '# Meeting notes',
+        '- **Duration:** 62:05\n- **Speakers:** Ana, Ben\n- **Language:** English',
+        '## Markers\n\n- 0:00 Intro\n- 62:03 Q&A \\*starts\\*',
+        '## Transcript\n\n**[0:00] Ana:** Good morning everyone.\n\n**[0:01] Ben:** Morning! Shall we start?',
+      ].join('\n\n') + '\n',
+    );
+  });
+
+  it('dates the notes when the start is known', () => {
+    const startedAt = Date.UTC(2024, 0, 2, 9);
+    const notes = buildMeetingNotes([{ text: 'Hi' }], { startedAt });
+
+    expect(notes).toContain(`# Meeting notes – ${new Date(startedAt).toLocaleDateString()}`);
+    expect(notes).toContain(`- **Date:** ${new Date(startedAt).toLocaleString()}`);
+    expect(notes).toContain('## Transcript\n\nHi\n');
+  });
+});
+
+describe('buildTranscript', () => {
+  it('picks the builder for each format, plain text by default', () => {
+    expect(buildTranscript('srt', entries)).toBe(buildSrt(entries));
+    expect(buildTranscript('vtt', entries)).toBe(buildWebVtt(entries));
+    expect(buildTranscript('json', entries)).toBe(buildTranscriptJson(entries));
+    expect(buildTranscript('md', entries)).toBe(buildMeetingNotes(entries));
+    expect(buildTranscript('txt', entries)).toBe(buildPlainText(entries));
+  });
+});
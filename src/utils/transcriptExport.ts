@@ -0,0 +1,196 @@
+import type { RecordingMarker, TranscriptExportFormat } from '../types/audio.types';
+import type { RecordingTranscriptEntry } from '../services/recordingStore';
+import { formatDuration, formatLanguage, formatTimestamp } from './format';
+
+// Usual subtitle limits: two lines of at most 42 characters per cue. Longer
+// entries are split over several cues.
+const MAX_LINE_CHARS = 42;
+const MAX_CUE_LINES = 2;
+// Cue length for entries that have a start but no end
+const DEFAULT_CUE_MS = 2000;
+
+export const TRANSCRIPT_EXPORT_FORMATS: {
+  format: TranscriptExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  { format: 'srt', label: 'SubRip (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'txt', label: 'Plain text (.txt)', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'json', label: 'JSON (.json)', extension: 'json', mimeType: 'application/json' },
+  { format: 'md', label: 'Meeting notes (.md)', extension: 'md', mimeType: 'text/markdown' },
+];
+
+export interface TranscriptExportMeta {
+  startedAt?: number | null;
+  durationMs?: number | null;
+  markers?: RecordingMarker[];
+}
+
+interface Cue {
+  startMs: number;
+  endMs: number;
+  speaker?: string;
+  lines: string[];
+}
+
+// Greedy word wrap; a word longer than a line gets a line of its own
+function wrapText(text: string, maxChars = MAX_LINE_CHARS): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Timed entries as cues in time order. An entry too long for one cue is split,
+// and its time shared out by the characters in each part.
+function toCues(entries: RecordingTranscriptEntry[], labelSpeakers: boolean): Cue[] {
+  const timed = entries
+    .filter((entry) => entry.startMs != null && entry.text.trim())
+    .sort((a, b) => a.startMs! - b.startMs!);
+  const cues: Cue[] = [];
+  timed.forEach((entry, i) => {
+    const startMs = entry.startMs!;
+    const nextStartMs = timed[i + 1]?.startMs;
+    const fallbackEndMs =
+      nextStartMs != null && nextStartMs > startMs
+        ? Math.min(nextStartMs, startMs + DEFAULT_CUE_MS)
+        : startMs + DEFAULT_CUE_MS;
+    const endMs = entry.endMs != null && entry.endMs > startMs ? entry.endMs : fallbackEndMs;
+    const text = labelSpeakers && entry.speaker ? `${entry.speaker}: ${entry.text}` : entry.text;
+    const lines = wrapText(text);
+    const groups: string[][] = [];
+    for (let j = 0; j < lines.length; j += MAX_CUE_LINES) groups.push(lines.slice(j, j + MAX_CUE_LINES));
+    const totalChars = lines.reduce((sum, line) => sum + line.length, 0);
+    let cueStartMs = startMs;
+    let charsBefore = 0;
+    groups.forEach((group, j) => {
+      charsBefore += group.reduce((sum, line) => sum + line.length, 0);
+      const cueEndMs =
+        j === groups.length - 1 ? endMs : Math.round(startMs + ((endMs - startMs) * charsBefore) / totalChars);
+      cues.push({ startMs: cueStartMs, endMs: cueEndMs, speaker: entry.speaker, lines: group });
+      cueStartMs = cueEndMs;
+    });
+  });
+  return cues;
+}
+
+export function buildSrt(entries: RecordingTranscriptEntry[]): string {
+  const cues = toCues(entries, true).map(
+    (cue, i) =>
+      `${i + 1}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${cue.lines.join('\n')}`,
+  );
+  return cues.length > 0 ? cues.join('\n\n') + '\n' : '';
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Speakers go in voice spans, which players can style or show as a label
+export function buildWebVtt(entries: RecordingTranscriptEntry[]): string {
+  const cues = toCues(entries, false).map((cue, i) => {
+    const text = cue.lines.map(escapeVtt).join('\n');
+    return `${i + 1}\n${formatTimestamp(cue.startMs)} --> ${formatTimestamp(cue.endMs)}\n${
+      cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${text}</v>` : text
+    }`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+// Consecutive entries of the same speaker as one paragraph
+function toTurns(entries: RecordingTranscriptEntry[]) {
+  const turns: { speaker?: string; startMs?: number; texts: string[] }[] = [];
+  entries.forEach((entry) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === entry.speaker) last.texts.push(entry.text);
+    else turns.push({ speaker: entry.speaker, startMs: entry.startMs, texts: [entry.text] });
+  });
+  return turns;
+}
+
+export function buildPlainText(entries: RecordingTranscriptEntry[]): string {
+  return (
+    toTurns(entries)
+      .map((turn) => (turn.speaker ? `${turn.speaker}: ${turn.texts.join(' ')}` : turn.texts.join(' ')))
+      .join('\n\n') + '\n'
+  );
+}
+
+export function buildTranscriptJson(entries: RecordingTranscriptEntry[], meta: TranscriptExportMeta = {}): string {
+  const transcript = {
+    version: 1,
+    startedAt: meta.startedAt ? new Date(meta.startedAt).toISOString() : null,
+    durationMs: meta.durationMs != null ? Math.round(meta.durationMs) : null,
+    segments: entries.map((entry) => ({
+      startMs: entry.startMs ?? null,
+      endMs: entry.endMs ?? null,
+      start: entry.startMs != null ? formatTimestamp(entry.startMs) : null,
+      end: entry.endMs != null ? formatTimestamp(entry.endMs) : null,
+      speaker: entry.speaker ?? null,
+      text: entry.text,
+      language: entry.language ?? null,
+      provider: entry.provider ?? null,
+    })),
+  };
+  return JSON.stringify(transcript, null, 2);
+}
+
+const escapeMarkdown = (text: string) => text.replace(/[\\`*_[\]<>]/g, '\\$&');
+
+// Header with date, length, speakers and languages, the markers as an agenda,
+// then the transcript one speaker turn per paragraph
+export function buildMeetingNotes(entries: RecordingTranscriptEntry[], meta: TranscriptExportMeta = {}): string {
+  const started = meta.startedAt ? new Date(meta.startedAt) : null;
+  const speakers = [...new Set(entries.map((entry) => entry.speaker).filter(Boolean))];
+  const languages = [...new Set(entries.map((entry) => entry.language).filter(Boolean))];
+  const details = [
+    started && `- **Date:** ${started.toLocaleString()}`,
+    meta.durationMs != null && `- **Duration:** ${formatDuration(meta.durationMs / 1000)}`,
+    speakers.length > 0 && `- **Speakers:** ${speakers.map(escapeMarkdown).join(', ')}`,
+    languages.length > 0 && `- **Language:** ${languages.map(formatLanguage).join(', ')}`,
+  ].filter(Boolean);
+  const markers = [...(meta.markers || [])].sort((a, b) => a.timeMs - b.timeMs);
+  const sections = [
+    `# Meeting notes${started ? ` – ${started.toLocaleDateString()}` : ''}`,
+    details.join('\n'),
+    markers.length > 0 &&
+      `## Markers\n\n${markers.map((m) => `- ${formatDuration(m.timeMs / 1000)} ${escapeMarkdown(m.label)}`).join('\n')}`,
+    `## Transcript\n\n${toTurns(entries)
+      .map((turn) => {
+        const time = turn.startMs != null ? `[${formatDuration(turn.startMs / 1000)}]` : '';
+        const speaker = turn.speaker ? `${escapeMarkdown(turn.speaker)}:` : '';
+        const lead = [time, speaker].filter(Boolean).join(' ');
+        const text = escapeMarkdown(turn.texts.join(' '));
+        return lead ? `**${lead}** ${text}` : text;
+      })
+      .join('\n\n')}`,
+  ].filter(Boolean);
+  return sections.join('\n\n') + '\n';
+}
+
+export function buildTranscript(
+  format: TranscriptExportFormat,
+  entries: RecordingTranscriptEntry[],
+  meta: TranscriptExportMeta = {},
+): string {
+  switch (format) {
+    case 'srt':
+      return buildSrt(entries);
+    case 'vtt':
+      return buildWebVtt(entries);
+    case 'json':
+      return buildTranscriptJson(entries, meta);
+    case 'md':
+      return buildMeetingNotes(entries, meta);
+    default:
+      return buildPlainText(entries);
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { mergeTranscriptLine, type TranscriptLine } from './transcriptMerge';
+
+const line = (text: string, startMs?: number, endMs?: number, speaker?: string): TranscriptLine => ({
+  text,
+  startMs,
+  endMs,
+  speaker,
+});
+
+describe('mergeTranscriptLine', () => {
+  it('drops the words the new line repeats and starts it after them', () => {
+    const previous = line('we should ship the release on friday', 0, 5000);
+    const merged = mergeTranscriptLine([previous], line('ship the release on friday and then celebrate', 3000, 8000));
+
+    expect(merged).toEqual([previous, line('and then celebrate', 6125, 8000)]);
+  });
+
+  it('never starts the remaining words before the previous line ends', () => {
+    const previous = line('the numbers look good', 0, 6000);
+    const merged = mergeTranscriptLine([previous], line('look good so far', 5000, 7000));
+
+    expect(merged[1]).toEqual(line('so far', 6000, 7000));
+  });
+
+  it('appends a line that shares no words with the previous one', () => {
+    const previous = line('we should ship the release on friday', 0, 5000);
+    const incoming = line('any questions before we wrap up', 4800, 9000);
+
+    expect(mergeTranscriptLine([previous], incoming)).toEqual([previous, incoming]);
+  });
+
+  it('appends a line too far apart in time to share audio, even if its words repeat', () => {
+    const previous = line('on friday', 0, 5000);
+    const incoming = line('on friday we ship', 10_000, 12_000);
+
+    expect(mergeTranscriptLine([previous], incoming)).toEqual([previous, incoming]);
+  });
+
+  it('completes a word the segment boundary cut off', () => {
+    const merged = mergeTranscriptLine(
+      [line('let us look at the bud', 0, 5000)],
+      line('the budget for next year', 4500, 8000),
+    );
+
+    expect(merged.map((l) => l.text)).toEqual(['let us look at the budget', 'for next year']);
+  });
+
+  it("aligns against the same speaker's line, looking back past other speakers", () => {
+    const lines = [
+      line('hello everyone welcome to the call', 0, 4000, 'Me'),
+      line('thanks for having us', 3000, 5000, 'Remote'),
+    ];
+    const merged = mergeTranscriptLine(lines, line('to the call today we discuss budgets', 3500, 8000, 'Me'));
+
+    expect(merged).toHaveLength(3);
+    expect(merged[2]).toMatchObject({ text: 'today we discuss budgets', speaker: 'Me' });
+  });
+
+  it('gives up looking for the speaker after a few lines', () => {
+    const lines = [
+      line('hello everyone welcome to the call', 0, 4000, 'Me'),
+      ...Array.from({ length: 6 }, (_, i) => line(`remark ${i}`, 3000, 4000, 'Remote')),
+    ];
+    const incoming = line('to the call today we discuss budgets', 3500, 8000, 'Me');
+
+    expect(mergeTranscriptLine(lines, incoming)).toEqual([...lines, incoming]);
+  });
+
+  it('only extends the end of the previous line when every word repeats', () => {
+    const merged = mergeTranscriptLine([line('see you next week', 0, 3000)], line('next week', 2500, 3600));
+
+    expect(merged).toEqual([line('see you next week', 0, 3600)]);
+  });
+
+  it('matches untimed lines by content alone', () => {
+    const merged = mergeTranscriptLine([line('the quarterly report is ready')], line('report is ready for review'));
+
+    expect(merged.map((l) => l.text)).toEqual(['the quarterly report is ready', 'for review']);
+  });
+});
@@ -0,0 +1,151 @@
+// Stitches transcripts of overlapping audio segments into one running
+// transcript. When a new line overlaps the same speaker's previous line (by
+// timestamps, or by content when times are unknown), the end of the previous
+// line is aligned word by word against the start of the new one. Words are
+// compared case- and punctuation-insensitively with a small edit-distance
+// tolerance, since Whisper rarely transcribes a boundary word the same way
+// twice. The repeated words are dropped from the new line, and its start moves
+// past them. When the previous line ended on a word cut off by the segment
+// boundary, it takes the complete spelling from the new line.
+
+export interface TranscriptLine {
+  text: string;
+  speaker?: string;
+  // Position on the recording timeline, when known
+  startMs?: number;
+  endMs?: number;
+}
+
+// Lines further apart than this in time cannot share audio
+const OVERLAP_TOLERANCE_MS = 500;
+// Upper bound on how many words a boundary overlap can hold
+const WORDS_PER_SECOND = 4;
+const EXTRA_WORDS = 3;
+const UNTIMED_WINDOW_WORDS = 12;
+// How far back to look for the same speaker's previous line
+const SPEAKER_LOOKBACK = 6;
+const MIN_WORD_SIMILARITY = 0.7;
+// Roughly two matching words, since one common word alone is not evidence of
+// overlap; a single exact word is enough when the timestamps already overlap
+const MIN_ALIGNMENT_SCORE = 1.5;
+const MIN_TIMED_ALIGNMENT_SCORE = 1;
+const GAP_PENALTY = 0.6;
+const MISMATCH_PENALTY = 1;
+
+const normalize = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+const words = (text: string) => text.split(/\s+/).filter(Boolean);
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for the same word, down to 0; a word cut off by the boundary still
+// matches its complete form
+function wordSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  if (short.length >= 3 && long.startsWith(short)) return 0.8;
+  return 1 - editDistance(a, b) / long.length;
+}
+
+// Number of leading words of `next` that repeat the end of `previous`, found
+// by a semi-global alignment: it may start anywhere in `previous` but has to
+// run to its last word, and it covers a prefix of `next`.
+function overlappingWords(previous: string[], next: string[], minScore: number): number {
+  const p = previous.map(normalize);
+  const n = next.map(normalize);
+  // score[i][j]: best alignment of some suffix of p[0..i) with n[0..j)
+  let row = n.map((_, j) => -(j + 1) * GAP_PENALTY);
+  row.unshift(0);
+  for (let i = 1; i <= p.length; i++) {
+    const current = [0];
+    for (let j = 1; j <= n.length; j++) {
+      const similarity = wordSimilarity(p[i - 1], n[j - 1]);
+      const pair = similarity >= MIN_WORD_SIMILARITY ? similarity : -MISMATCH_PENALTY;
+      current[j] = Math.max(row[j - 1] + pair, row[j] - GAP_PENALTY, current[j - 1] - GAP_PENALTY);
+    }
+    row = current;
+  }
+  let best = 0;
+  for (let j = 1; j <= n.length; j++) {
+    if (row[j] >= minScore && row[j] > row[best]) best = j;
+  }
+  return best;
+}
+
+// Words that can sit in the shared audio and the alignment score needed to
+// trust an overlap, or null when the lines cannot overlap at all
+function overlapWindow(previous: TranscriptLine, next: TranscriptLine): { words: number; minScore: number } | null {
+  if (previous.endMs == null || next.startMs == null) {
+    return { words: UNTIMED_WINDOW_WORDS, minScore: MIN_ALIGNMENT_SCORE };
+  }
+  const overlapMs = previous.endMs - next.startMs;
+  if (overlapMs < -OVERLAP_TOLERANCE_MS) return null;
+  return {
+    words: Math.ceil((Math.max(0, overlapMs) / 1000) * WORDS_PER_SECOND) + EXTRA_WORDS,
+    minScore: overlapMs > 0 ? MIN_TIMED_ALIGNMENT_SCORE : MIN_ALIGNMENT_SCORE,
+  };
+}
+
+// Adds `incoming` after `lines` without the words it repeats. Returns a new
+// array; `lines` is left untouched. An incoming line that only repeats what is
+// already there leaves the transcript unchanged. Other fields of the lines are
+// carried over as they are.
+export function mergeTranscriptLine<T extends TranscriptLine>(lines: T[], incoming: T): T[] {
+  const text = incoming.text.replace(/\s+/g, ' ').trim();
+  if (!text) return lines;
+  const line = { ...incoming, text };
+
+  let previousIndex = -1;
+  for (let i = lines.length - 1; i >= Math.max(0, lines.length - SPEAKER_LOOKBACK); i--) {
+    if (lines[i].speaker === line.speaker) {
+      previousIndex = i;
+      break;
+    }
+  }
+  const previous = lines[previousIndex];
+  const window = previous ? overlapWindow(previous, line) : null;
+  if (!previous || window === null) return [...lines, line];
+
+  const previousWords = words(previous.text);
+  const nextWords = words(text);
+  const tail = previousWords.slice(-window.words);
+  const repeated = overlappingWords(tail, nextWords.slice(0, window.words), window.minScore);
+  if (repeated === 0) return [...lines, line];
+
+  const merged = [...lines];
+  // A cut-off last word gives way to the complete one from the new line
+  const lastWord = normalize(previousWords[previousWords.length - 1]);
+  const boundaryWord = normalize(nextWords[repeated - 1]);
+  if (lastWord !== boundaryWord && boundaryWord.startsWith(lastWord)) {
+    previousWords[previousWords.length - 1] = nextWords[repeated - 1];
+    merged[previousIndex] = { ...previous, text: previousWords.join(' ') };
+  }
+  const remaining = nextWords.slice(repeated);
+  if (remaining.length === 0) {
+    if (line.endMs != null) merged[previousIndex] = { ...merged[previousIndex], endMs: line.endMs };
+    return merged;
+  }
+  return [...merged, { ...line, text: remaining.join(' '), startMs: trimmedStartMs(previous, line, repeated) }];
+}
+
+// Where the new line's remaining words start: past the repeated ones, by their
+// share of its words, and no earlier than the previous line ends, so the cues
+// of the two lines do not overlap
+function trimmedStartMs(previous: TranscriptLine, line: TranscriptLine, repeated: number): number | undefined {
+  if (line.startMs == null) return undefined;
+  let startMs = line.startMs;
+  if (line.endMs != null) startMs += ((line.endMs - line.startMs) * repeated) / words(line.text).length;
+  if (previous.endMs != null) startMs = Math.max(startMs, previous.endMs);
+  return line.endMs != null ? Math.min(startMs, line.endMs) : startMs;
+}
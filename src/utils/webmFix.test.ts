@@ -0,0 +1,137 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { fixWebmMetadata } from './webmFix';
+
+// MediaRecorder output: live-streamed, without Duration or Cues
+const SAMPLE = new Uint8Array(readFileSync(new URL('../../whisper_server/sample.webm', import.meta.url)));
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  Cluster: 0x1f43b675,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTrackPositions: 0xb7,
+  CueClusterPosition: 0xf1,
+};
+
+interface Element {
+  id: number;
+  offset: number;
+  dataOffset: number;
+  size: number;
+}
+
+const vintLength = (byte: number) => {
+  for (let length = 1; length <= 8; length++) if (byte & (0x80 >> (length - 1))) return length;
+  throw new Error('Invalid variable-length integer');
+};
+
+const readUint = (bytes: Uint8Array) => bytes.reduce((value, byte) => value * 256 + byte, 0);
+
+// A deliberately small reader, independent of the one under test. Unknown
+// sizes fail the parse, so a rebuilt file has to have them all filled in.
+function readElement(bytes: Uint8Array, offset: number): Element {
+  const idLength = vintLength(bytes[offset]);
+  const sizeLength = vintLength(bytes[offset + idLength]);
+  const sizeBytes = bytes.slice(offset + idLength, offset + idLength + sizeLength);
+  sizeBytes[0] &= 0xff >> sizeLength;
+  if (sizeBytes[0] === 0xff >> sizeLength && sizeBytes.subarray(1).every((b) => b === 0xff)) {
+    throw new Error(`Unknown-sized element at ${offset}`);
+  }
+  return {
+    id: readUint(bytes.subarray(offset, offset + idLength)),
+    offset,
+    dataOffset: offset + idLength + sizeLength,
+    size: readUint(sizeBytes),
+  };
+}
+
+function children(bytes: Uint8Array, parent: Element): Element[] {
+  const found: Element[] = [];
+  for (let offset = parent.dataOffset; offset < parent.dataOffset + parent.size;) {
+    const child = readElement(bytes, offset);
+    found.push(child);
+    offset = child.dataOffset + child.size;
+  }
+  return found;
+}
+
+const child = (bytes: Uint8Array, parent: Element, id: number) => children(bytes, parent).find((el) => el.id === id);
+const data = (bytes: Uint8Array, el: Element) => bytes.subarray(el.dataOffset, el.dataOffset + el.size);
+
+async function rebuild(input: Uint8Array): Promise<Uint8Array> {
+  const fixed = await fixWebmMetadata(new Blob([input], { type: 'audio/webm' }));
+  return new Uint8Array(await fixed.arrayBuffer());
+}
+
+function parseSegment(bytes: Uint8Array) {
+  const ebml = readElement(bytes, 0);
+  expect(ebml.id).toBe(ID.EBML);
+  const segment = readElement(bytes, ebml.dataOffset + ebml.size);
+  expect(segment.id).toBe(ID.Segment);
+  expect(segment.dataOffset + segment.size).toBe(bytes.length);
+  return segment;
+}
+
+describe('fixWebmMetadata', () => {
+  it('leaves the sample without Duration or Cues to start with', () => {
+    expect(() => parseSegment(SAMPLE)).toThrow(/Unknown-sized/);
+  });
+
+  it('writes the measured Duration into Info', async () => {
+    const bytes = await rebuild(SAMPLE);
+    const segment = parseSegment(bytes);
+    const info = child(bytes, segment, ID.Info)!;
+    const duration = child(bytes, info, ID.Duration);
+    expect(duration).toBeDefined();
+    const value = new DataView(bytes.buffer, bytes.byteOffset + duration!.dataOffset, duration!.size).getFloat64(0);
+    // The sample is a few seconds long; Duration is in milliseconds at the default TimecodeScale
+    expect(value).toBeGreaterThan(1000);
+    expect(value).toBeLessThan(60_000);
+  });
+
+  it('points SeekHead and Cues at the elements and clusters that are really there', async () => {
+    const bytes = await rebuild(SAMPLE);
+    const segment = parseSegment(bytes);
+    const top = children(bytes, segment);
+    const clusters = top.filter((el) => el.id === ID.Cluster);
+    expect(clusters.length).toBeGreaterThan(0);
+
+    const seekHead = top.find((el) => el.id === ID.SeekHead)!;
+    const seeks = children(bytes, seekHead).filter((el) => el.id === ID.Seek);
+    expect(seeks).toHaveLength(3);
+    for (const seek of seeks) {
+      const id = readUint(data(bytes, child(bytes, seek, ID.SeekID)!));
+      const position = readUint(data(bytes, child(bytes, seek, ID.SeekPosition)!));
+      expect(readElement(bytes, segment.dataOffset + position).id).toBe(id);
+    }
+
+    const cues = top.find((el) => el.id === ID.Cues)!;
+    const cuePositions = children(bytes, cues)
+      .filter((el) => el.id === ID.CuePoint)
+      .map((point) => {
+        const track = child(bytes, point, ID.CueTrackPositions)!;
+        return readUint(data(bytes, child(bytes, track, ID.CueClusterPosition)!));
+      });
+    expect(cuePositions).toEqual(clusters.map((cluster) => cluster.offset - segment.dataOffset));
+  });
+
+  it('changes nothing when run on its own output', async () => {
+    const once = await rebuild(SAMPLE);
+    const twice = await rebuild(once);
+    expect(Buffer.from(twice).equals(Buffer.from(once))).toBe(true);
+  });
+
+  it('returns anything that is not WebM unchanged', async () => {
+    const input = new Blob([new Uint8Array([1, 2, 3, 4])]);
+    expect(await fixWebmMetadata(input)).toBe(input);
+  });
+});
@@ -0,0 +1,342 @@
+import { BlobReader } from './blobReader';
+
+// MediaRecorder writes WebM as a live stream: the Segment and its Clusters have
+// unknown sizes, Info has no Duration and there are no Cues, so players show 0:00
+// or Infinity and cannot seek. This rewrites the metadata in front of the
+// untouched cluster payloads:
+//
+//   EBML header, Segment { SeekHead, Info (+Duration), Tracks, ..., Cues, Clusters }
+//
+// The input is read in windows and the output Blob reuses slices of the input,
+// so long recordings are never copied into memory as a whole.
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Void: 0xec,
+} as const;
+
+// Elements that may follow a Cluster at Segment level; one of these ends an
+// unknown-sized Cluster
+const SEGMENT_LEVEL_IDS = new Set<number>([
+  ID.SeekHead,
+  ID.Info,
+  ID.Tracks,
+  ID.Cluster,
+  ID.Cues,
+  0x1043a770, // Chapters
+  0x1254c367, // Tags
+  0x1941a469, // Attachments
+]);
+
+const TRACK_TYPE_AUDIO = 2;
+// Every rewritten size uses the 8-byte form so lengths never depend on values
+const SIZE_WIDTH = 8;
+
+interface ElementHeader {
+  id: number;
+  offset: number;
+  dataOffset: number;
+  // null for unknown-sized (live) elements
+  size: number | null;
+}
+
+interface ClusterInfo {
+  dataOffset: number;
+  dataEnd: number;
+  timecode: number;
+}
+
+const vintLength = (firstByte: number): number => {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length;
+  }
+  throw new Error('Invalid EBML variable-length integer');
+};
+
+const readUint = (bytes: Uint8Array): number => {
+  let value = 0;
+  for (let i = 0; i < bytes.length; i++) value = value * 256 + bytes[i];
+  return value;
+};
+
+async function readHeader(reader: BlobReader, offset: number): Promise<ElementHeader> {
+  const head = await reader.bytes(offset, 12);
+  if (head.length < 2) throw new Error('Truncated EBML element');
+  const idLength = vintLength(head[0]);
+  if (idLength > 4) throw new Error('Invalid EBML element id');
+  const id = readUint(head.subarray(0, idLength));
+  const sizeLength = vintLength(head[idLength]);
+  const sizeBytes = head.slice(idLength, idLength + sizeLength);
+  if (sizeBytes.length < sizeLength) throw new Error('Truncated EBML element');
+  sizeBytes[0] &= 0xff >> sizeLength;
+  const unknown = sizeBytes[0] === 0xff >> sizeLength && sizeBytes.subarray(1).every((b) => b === 0xff);
+  return {
+    id,
+    offset,
+    dataOffset: offset + idLength + sizeLength,
+    size: unknown ? null : readUint(sizeBytes),
+  };
+}
+
+// A recording cut off by a crash can end mid-element; that just ends the scan
+async function tryReadHeader(reader: BlobReader, offset: number): Promise<ElementHeader | null> {
+  try {
+    return await readHeader(reader, offset);
+  } catch {
+    return null;
+  }
+}
+
+async function readChildren(reader: BlobReader, start: number, end: number): Promise<ElementHeader[]> {
+  const children: ElementHeader[] = [];
+  for (let offset = start; offset < end; ) {
+    const header = await readHeader(reader, offset);
+    if (header.size === null) throw new Error('Unexpected unknown-sized element');
+    children.push(header);
+    offset = header.dataOffset + header.size;
+  }
+  return children;
+}
+
+// --- writing ---------------------------------------------------------------
+
+const encodeId = (id: number): number[] => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+  return bytes;
+};
+
+const encodeSize = (size: number, width = SIZE_WIDTH): number[] => {
+  const bytes: number[] = new Array(width).fill(0);
+  let value = size;
+  for (let i = width - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (width - 1);
+  return bytes;
+};
+
+const encodeUint = (value: number, width: number): number[] => {
+  const bytes: number[] = new Array(width).fill(0);
+  for (let i = width - 1, v = value; i >= 0; i--, v = Math.floor(v / 256)) bytes[i] = v % 256;
+  return bytes;
+};
+
+const element = (id: number, data: number[] | Uint8Array): number[] => [
+  ...encodeId(id),
+  ...encodeSize(data.length),
+  ...Array.from(data),
+];
+
+const uintElement = (id: number, value: number, width = SIZE_WIDTH) => element(id, encodeUint(value, width));
+
+const floatElement = (id: number, value: number) => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const clusterHeaderLength = encodeId(ID.Cluster).length + SIZE_WIDTH;
+
+// --- scanning --------------------------------------------------------------
+
+interface BlockTiming {
+  maxTimestamp: number;
+  lastTimestamp: number;
+  frameDuration: number;
+}
+
+async function scanBlock(reader: BlobReader, dataOffset: number, clusterTimecode: number, timing: BlockTiming) {
+  const head = await reader.bytes(dataOffset, 11);
+  const trackLength = vintLength(head[0]);
+  const relative = new DataView(head.buffer, head.byteOffset + trackLength, 2).getInt16(0);
+  const timestamp = clusterTimecode + relative;
+  if (timestamp > timing.lastTimestamp) {
+    timing.frameDuration = timing.lastTimestamp >= 0 ? timestamp - timing.lastTimestamp : timing.frameDuration;
+    timing.lastTimestamp = timestamp;
+  }
+  timing.maxTimestamp = Math.max(timing.maxTimestamp, timestamp);
+}
+
+// Walks one Cluster, returning its timecode and where it ends. Unknown-sized
+// clusters end where the next Segment-level element starts.
+async function scanCluster(reader: BlobReader, header: ElementHeader, segmentEnd: number, timing: BlockTiming) {
+  const limit = header.size === null ? segmentEnd : header.dataOffset + header.size;
+  let timecode = 0;
+  let offset = header.dataOffset;
+  while (offset < limit) {
+    const child = await tryReadHeader(reader, offset);
+    if (!child || (header.size === null && SEGMENT_LEVEL_IDS.has(child.id))) break;
+    if (child.size === null) throw new Error('Unexpected unknown-sized element in cluster');
+    const end = child.dataOffset + child.size;
+    if (end > reader.size) break;
+
+    if (child.id === ID.Timecode) {
+      timecode = readUint(await reader.bytes(child.dataOffset, child.size));
+    } else if (child.id === ID.SimpleBlock) {
+      await scanBlock(reader, child.dataOffset, timecode, timing);
+    } else if (child.id === ID.BlockGroup) {
+      for (const inner of await readChildren(reader, child.dataOffset, end)) {
+        if (inner.id === ID.Block) await scanBlock(reader, inner.dataOffset, timecode, timing);
+      }
+    }
+    offset = end;
+  }
+  return { dataOffset: header.dataOffset, dataEnd: Math.min(offset, limit), timecode };
+}
+
+async function findCueTrack(reader: BlobReader, tracks: ElementHeader): Promise<number> {
+  let fallback = 1;
+  for (const entry of await readChildren(reader, tracks.dataOffset, tracks.dataOffset + (tracks.size || 0))) {
+    if (entry.id !== ID.TrackEntry) continue;
+    let number = 0;
+    let type = 0;
+    for (const field of await readChildren(reader, entry.dataOffset, entry.dataOffset + (entry.size || 0))) {
+      if (field.id === ID.TrackNumber) number = readUint(await reader.bytes(field.dataOffset, field.size || 0));
+      if (field.id === ID.TrackType) type = readUint(await reader.bytes(field.dataOffset, field.size || 0));
+    }
+    if (type === TRACK_TYPE_AUDIO && number) return number;
+    if (number && fallback === 1) fallback = number;
+  }
+  return fallback;
+}
+
+// Rebuilds a MediaRecorder WebM with a Duration and a Cues index. Anything that
+// is not WebM, or that fails to parse, comes back unchanged.
+export async function fixWebmMetadata(blob: Blob): Promise<Blob> {
+  try {
+    return await rebuildWebm(blob);
+  } catch (err) {
+    console.warn('Leaving WebM metadata untouched', err);
+    return blob;
+  }
+}
+
+async function rebuildWebm(blob: Blob): Promise<Blob> {
+  const reader = new BlobReader(blob);
+  const ebml = await readHeader(reader, 0);
+  if (ebml.id !== ID.EBML || ebml.size === null) return blob;
+  const segment = await readHeader(reader, ebml.dataOffset + ebml.size);
+  if (segment.id !== ID.Segment) return blob;
+  const segmentEnd = segment.size === null ? blob.size : Math.min(blob.size, segment.dataOffset + segment.size);
+
+  let info: ElementHeader | null = null;
+  let tracks: ElementHeader | null = null;
+  const leading: ElementHeader[] = [];
+  const trailing: ElementHeader[] = [];
+  const clusters: ClusterInfo[] = [];
+  const timing: BlockTiming = { maxTimestamp: 0, lastTimestamp: -1, frameDuration: 0 };
+
+  for (let offset = segment.dataOffset; offset < segmentEnd; ) {
+    const child = await tryReadHeader(reader, offset);
+    if (!child) break;
+    if (child.id === ID.Cluster) {
+      const cluster = await scanCluster(reader, child, segmentEnd, timing);
+      clusters.push(cluster);
+      offset = cluster.dataEnd;
+      continue;
+    }
+    if (child.size === null) throw new Error('Unexpected unknown-sized element in segment');
+    const end = child.dataOffset + child.size;
+    if (end > segmentEnd) break;
+    if (child.id === ID.Info) info = child;
+    else if (child.id === ID.Tracks) tracks = child;
+    // Old SeekHead and Cues are regenerated; padding is dropped
+    else if (child.id !== ID.SeekHead && child.id !== ID.Cues && child.id !== ID.Void) {
+      (clusters.length === 0 ? leading : trailing).push(child);
+    }
+    offset = end;
+  }
+  if (!info || !tracks || clusters.length === 0) return blob;
+
+  // Info without any previous Duration, plus the measured one. Duration is in
+  // TimecodeScale units, the same units block timestamps use.
+  const infoParts: number[] = [];
+  for (const field of await readChildren(reader, info.dataOffset, info.dataOffset + (info.size || 0))) {
+    if (field.id === ID.Duration) continue;
+    infoParts.push(...(await reader.bytes(field.offset, field.dataOffset + (field.size || 0) - field.offset)));
+  }
+  const duration = timing.maxTimestamp + timing.frameDuration;
+  const infoBytes = element(ID.Info, [...infoParts, ...floatElement(ID.Duration, duration)]);
+  const tracksBytes = Array.from(await reader.bytes(tracks.offset, tracks.dataOffset + tracks.size! - tracks.offset));
+  const leadingBytes: number[] = [];
+  for (const el of leading) {
+    leadingBytes.push(...(await reader.bytes(el.offset, el.dataOffset + el.size! - el.offset)));
+  }
+
+  // Sizes below are fixed-width, so positions can be laid out in one pass
+  const cueTrack = await findCueTrack(reader, tracks);
+  const cuePoint = (time: number, position: number) =>
+    element(ID.CuePoint, [
+      ...uintElement(ID.CueTime, time),
+      ...element(ID.CueTrackPositions, [
+        ...uintElement(ID.CueTrack, cueTrack),
+        ...uintElement(ID.CueClusterPosition, position),
+      ]),
+    ]);
+  const seek = (id: number, position: number) =>
+    element(ID.Seek, [...element(ID.SeekID, encodeId(id)), ...uintElement(ID.SeekPosition, position)]);
+
+  const seekHeadLength = element(ID.SeekHead, [...seek(ID.Info, 0), ...seek(ID.Tracks, 0), ...seek(ID.Cues, 0)]).length;
+  const cuesLength = element(ID.Cues, clusters.flatMap(() => cuePoint(0, 0))).length;
+  const infoPosition = seekHeadLength;
+  const tracksPosition = infoPosition + infoBytes.length;
+  const cuesPosition = tracksPosition + tracksBytes.length + leadingBytes.length;
+
+  const clusterPositions: number[] = [];
+  let position = cuesPosition + cuesLength;
+  for (const cluster of clusters) {
+    clusterPositions.push(position);
+    position += clusterHeaderLength + (cluster.dataEnd - cluster.dataOffset);
+  }
+  const trailingLength = trailing.reduce((sum, el) => sum + el.dataOffset + el.size! - el.offset, 0);
+  const segmentSize = position + trailingLength;
+
+  const seekHeadBytes = element(ID.SeekHead, [
+    ...seek(ID.Info, infoPosition),
+    ...seek(ID.Tracks, tracksPosition),
+    ...seek(ID.Cues, cuesPosition),
+  ]);
+  const cuesBytes = element(
+    ID.Cues,
+    clusters.flatMap((cluster, i) => cuePoint(cluster.timecode, clusterPositions[i])),
+  );
+
+  const parts: BlobPart[] = [
+    blob.slice(0, ebml.dataOffset + ebml.size),
+    new Uint8Array([...encodeId(ID.Segment), ...encodeSize(segmentSize)]),
+    new Uint8Array([...seekHeadBytes, ...infoBytes, ...tracksBytes, ...leadingBytes, ...cuesBytes]),
+  ];
+  for (const cluster of clusters) {
+    parts.push(new Uint8Array([...encodeId(ID.Cluster), ...encodeSize(cluster.dataEnd - cluster.dataOffset)]));
+    parts.push(blob.slice(cluster.dataOffset, cluster.dataEnd));
+  }
+  for (const el of trailing) {
+    parts.push(blob.slice(el.offset, el.dataOffset + el.size!));
+  }
+
+  return new Blob(parts, { type: blob.type });
+}
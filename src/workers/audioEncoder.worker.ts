@@ -0,0 +1,66 @@
+import { createMp3Encoder } from '../utils/mp3Encoder';
+import { encodeFlac, type FlacBitDepth } from '../utils/flacEncoder';
+
+export type AudioEncodeRequest =
+  | { format: 'mp3'; channels: Float32Array[]; sampleRate: number; bitRate: number }
+  | { format: 'flac'; channels: Float32Array[]; sampleRate: number; bitsPerSample: FlacBitDepth };
+
+export type AudioEncoderWorkerMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'done'; data: ArrayBuffer }
+  | { type: 'error'; message: string };
+
+// Roughly two seconds of audio per slice keeps progress updates smooth
+const SLICE_FRAMES = 80;
+const SAMPLES_PER_FRAME = 1152;
+const PROGRESS_STEP = 0.01;
+
+const post = (message: AudioEncoderWorkerMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const encodeMp3 = (channels: Float32Array[], sampleRate: number, bitRate: number): Uint8Array => {
+  const encoder = createMp3Encoder({ sampleRate, channels: channels.length, bitRate });
+  const length = channels[0]?.length || 0;
+  const sliceLength = SLICE_FRAMES * SAMPLES_PER_FRAME;
+  const parts: Uint8Array[] = [];
+
+  for (let start = 0; start < length; start += sliceLength) {
+    const end = Math.min(length, start + sliceLength);
+    parts.push(encoder.encode(channels.map((channel) => channel.subarray(start, end))));
+    post({ type: 'progress', progress: end / length });
+  }
+  parts.push(encoder.flush());
+  return concat(parts);
+};
+
+self.onmessage = (event: MessageEvent<AudioEncodeRequest>) => {
+  const request = event.data;
+  try {
+    let output: Uint8Array;
+    if (request.format === 'mp3') {
+      output = encodeMp3(request.channels, request.sampleRate, request.bitRate);
+    } else {
+      // FLAC reports progress per frame; only forward whole percent steps
+      let reported = 0;
+      output = encodeFlac(request.channels, request, (progress) => {
+        if (progress - reported < PROGRESS_STEP && progress < 1) return;
+        reported = progress;
+        post({ type: 'progress', progress });
+      });
+    }
+    post({ type: 'done', data: output.buffer }, [output.buffer]);
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
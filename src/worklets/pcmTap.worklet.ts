@@ -0,0 +1,93 @@
+import { StreamingResampler } from '../utils/resampler';
+
+// Audio worklet that copies whatever reaches its input out to the main thread
+// as planar PCM at a fixed rate. Frames are cut from one continuous resampled
+// stream, so consecutive frames join without gaps or overlap. Blocks with no
+// connected input count as silence to keep the frame timeline in step with the
+// context clock.
+
+// AudioWorkletGlobalScope is not part of the DOM lib
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+export interface PcmTapProcessorOptions {
+  channelCount: number;
+  targetSampleRate: number;
+  frameLength: number;
+}
+
+export interface PcmTapFrame {
+  channels: Float32Array[];
+  // Index of the first sample since the tap started, at the target rate
+  startFrame: number;
+  // AudioContext time of the first sample
+  contextTime: number;
+}
+
+const RENDER_QUANTUM = 128;
+
+class PcmTapProcessor extends AudioWorkletProcessor {
+  private readonly resamplers: StreamingResampler[];
+  private readonly frameLength: number;
+  private readonly targetSampleRate: number;
+  private pending: Float32Array[];
+  private filled = 0;
+  private emitted = 0;
+  private startTime: number | null = null;
+  private stopped = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { channelCount, targetSampleRate, frameLength } = options.processorOptions as PcmTapProcessorOptions;
+    this.frameLength = frameLength;
+    this.targetSampleRate = targetSampleRate;
+    this.resamplers = Array.from({ length: channelCount }, () => new StreamingResampler(sampleRate, targetSampleRate));
+    this.pending = this.resamplers.map(() => new Float32Array(frameLength));
+    this.port.onmessage = (event) => {
+      if (event.data === 'stop') this.stopped = true;
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    if (this.stopped) return false;
+    this.startTime ??= currentTime;
+    const input = inputs[0] ?? [];
+    const silence = input.length === 0 ? new Float32Array(RENDER_QUANTUM) : null;
+    const resampled = this.resamplers.map((resampler, channel) =>
+      resampler.process(silence ?? input[channel] ?? input[0]),
+    );
+
+    let offset = 0;
+    const length = resampled[0].length;
+    while (offset < length) {
+      const take = Math.min(length - offset, this.frameLength - this.filled);
+      resampled.forEach((samples, channel) => this.pending[channel].set(samples.subarray(offset, offset + take), this.filled));
+      this.filled += take;
+      offset += take;
+      if (this.filled === this.frameLength) this.flush();
+    }
+    return true;
+  }
+
+  private flush() {
+    const frame: PcmTapFrame = {
+      channels: this.pending,
+      startFrame: this.emitted,
+      contextTime: (this.startTime ?? currentTime) + this.emitted / this.targetSampleRate,
+    };
+    this.port.postMessage(frame, frame.channels.map((channel) => channel.buffer));
+    this.emitted += this.frameLength;
+    this.filled = 0;
+    this.pending = this.resamplers.map(() => new Float32Array(this.frameLength));
+  }
+}
+
+registerProcessor('pcm-tap', PcmTapProcessor);
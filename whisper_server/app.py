@@ -21,6 +21,7 @@ except ImportError as exc:
 DEFAULT_MODEL_SIZE = os.environ.get("WHISPER_MODEL_SIZE", "small.en")
 MODEL_CACHE = Path(os.environ.get("WHISPER_MODEL_DIR", Path.cwd() / "models"))
 MAX_UPLOAD_MB = int(os.environ.get("MAX_UPLOAD_MB", "10"))
+MAX_PROMPT_CHARS = 1000
 UPLOAD_DIR = Path(os.environ.get("WHISPER_UPLOAD_DIR", Path(__file__).parent / ".temp"))
 
 logging.basicConfig(level=logging.INFO)
@@ -109,14 +110,31 @@ def _convert_to_wav(input_path: str) -> str:
     return out_path
 
 
-def transcribe_audio_file(file_path: str) -> Dict[str, object]:
+def transcribe_audio_file(
+    file_path: str,
+    language: Optional[str] = None,
+    task: str = "transcribe",
+    initial_prompt: Optional[str] = None,
+    temperature: Optional[float] = None,
+) -> Dict[str, object]:
     """
     Shared transcription helper that powers both the web API and the CLI.
+    `language=None` lets Whisper detect the language. English-only models
+    (`*.en`) always transcribe English, whatever is asked for.
     """
     model = get_model()
-    result = model.transcribe(
-        file_path, language="en", task="transcribe", verbose=False
-    )
+    if not model.is_multilingual:
+        language, task = "en", "transcribe"
+    options: Dict[str, object] = {
+        "language": language,
+        "task": task,
+        "initial_prompt": initial_prompt or None,
+        "verbose": False,
+    }
+    # Without a temperature Whisper keeps its default fallback schedule
+    if temperature is not None:
+        options["temperature"] = temperature
+    result = model.transcribe(file_path, **options)
     text = (result.get("text") or "").strip()
     segment_payload = [
         {
@@ -134,6 +152,42 @@ def transcribe_audio_file(file_path: str) -> Dict[str, object]:
     }
 
 
+def _transcription_options() -> Dict[str, object]:
+    """
+    Optional form fields of /transcribe: `language` (a code or name, empty or
+    "auto" to detect it), `task` ("transcribe" or "translate" into English),
+    `prompt` (text the audio continues from) and `temperature` (0 to 1).
+    Raises ValueError for values Whisper would not accept.
+    """
+    from whisper.tokenizer import LANGUAGES, TO_LANGUAGE_CODE
+
+    language = (request.form.get("language") or "").strip().lower()
+    if language in ("", "auto"):
+        language = None
+    elif language not in LANGUAGES:
+        if language not in TO_LANGUAGE_CODE:
+            raise ValueError(f"Unknown language '{language}'")
+        language = TO_LANGUAGE_CODE[language]
+
+    task = request.form.get("task") or "transcribe"
+    if task not in ("transcribe", "translate"):
+        raise ValueError("task must be 'transcribe' or 'translate'")
+
+    temperature = None
+    if request.form.get("temperature"):
+        temperature = float(request.form["temperature"])
+        if not 0 <= temperature <= 1:
+            raise ValueError("temperature must be between 0 and 1")
+
+    prompt = (request.form.get("prompt") or "").strip()[-MAX_PROMPT_CHARS:]
+    return {
+        "language": language,
+        "task": task,
+        "initial_prompt": prompt or None,
+        "temperature": temperature,
+    }
+
+
 @app.post("/transcribe")
 def transcribe():
     file = request.files.get("file") or request.files.get("audio")
@@ -141,6 +195,10 @@ def transcribe():
         return jsonify({"error": "Upload an audio file using the 'file' field"}), 400
     if not file.filename:
         return jsonify({"error": "Uploaded file must have a filename"}), 400
+    try:
+        options = _transcription_options()
+    except ValueError as exc:
+        return jsonify({"error": str(exc)}), 400
 
     temp_path = None
     converted_path = None
@@ -165,7 +223,7 @@ def transcribe():
         else:
             path_for_model = temp_path
 
-        payload = transcribe_audio_file(path_for_model)
+        payload = transcribe_audio_file(path_for_model, **options)
         return jsonify(payload)
     except Exception as exc:  # pragma: no cover - prototype level logging
         app.logger.exception("/transcribe error: %s", exc)
@@ -0,0 +1,200 @@
+"""
+Mock of the streaming transcription endpoint (ws://host:port/stream).
+
+It speaks the same protocol as the browser client in
+src/services/transcription.ts but does no speech recognition: every stretch of
+audio above a level threshold becomes an utterance whose placeholder "words"
+grow with its length. Interim hypotheses are sent while an utterance runs and a
+final one once it ends (silence, length limit, flush or stop). Only the Python
+standard library is needed, so it runs without the Whisper virtualenv.
+
+    python mock_stream_server.py            # listens on port 5006
+    VITE_WHISPER_STREAM_URL=ws://localhost:5006/stream pnpm dev
+"""
+
+import argparse
+import asyncio
+import base64
+import hashlib
+import json
+import logging
+import math
+import os
+import struct
+from typing import Optional
+
+WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+OP_TEXT, OP_BINARY, OP_CLOSE, OP_PING, OP_PONG = 0x1, 0x2, 0x8, 0x9, 0xA
+
+WINDOW_SECONDS = 0.1
+SPEECH_RMS = 0.01
+END_SILENCE_SECONDS = 0.7
+MAX_UTTERANCE_SECONDS = 8.0
+SECONDS_PER_WORD = 0.3
+INTERIM_EVERY_SECONDS = 0.3
+WORDS = "mock transcript of streamed audio from the capture tap".split()
+
+logging.basicConfig(level=logging.INFO)
+log = logging.getLogger("mock_stream")
+
+
+class Utterances:
+    """
+    Turns 16-bit PCM into interim/final hypotheses with times in seconds of
+    audio since the stream started.
+    """
+
+    def __init__(self, sample_rate: int) -> None:
+        self.sample_rate = sample_rate
+        self.window = max(1, int(sample_rate * WINDOW_SECONDS))
+        self.pending = b""
+        self.position = 0.0
+        self.start: Optional[float] = None
+        self.last_voice = 0.0
+        self.last_interim = 0.0
+        self.count = 0
+
+    def _text(self, end: float) -> str:
+        words = max(1, int((end - self.start) / SECONDS_PER_WORD))
+        return " ".join(WORDS[(self.count + i) % len(WORDS)] for i in range(words))
+
+    def _message(self, kind: str, end: float) -> dict:
+        return {"type": kind, "text": self._text(end), "start": round(self.start, 3), "end": round(end, 3)}
+
+    def finalize(self) -> list:
+        if self.start is None:
+            return []
+        message = self._message("final", self.last_voice)
+        self.start = None
+        self.count += 1
+        return [message]
+
+    def feed(self, data: bytes) -> list:
+        messages = []
+        self.pending += data
+        step = self.window * 2
+        while len(self.pending) >= step:
+            chunk, self.pending = self.pending[:step], self.pending[step:]
+            samples = struct.unpack(f"<{self.window}h", chunk)
+            rms = math.sqrt(sum(s * s for s in samples) / len(samples)) / 32768
+            self.position += WINDOW_SECONDS
+            if rms >= SPEECH_RMS:
+                if self.start is None:
+                    self.start = self.position - WINDOW_SECONDS
+                    self.last_interim = self.start
+                self.last_voice = self.position
+            if self.start is None:
+                continue
+            if (
+                self.position - self.last_voice >= END_SILENCE_SECONDS
+                or self.position - self.start >= MAX_UTTERANCE_SECONDS
+            ):
+                messages += self.finalize()
+            elif self.position - self.last_interim >= INTERIM_EVERY_SECONDS:
+                self.last_interim = self.position
+                messages.append(self._message("interim", self.position))
+        return messages
+
+
+async def read_frame(reader: asyncio.StreamReader) -> tuple[int, bytes]:
+    head = await reader.readexactly(2)
+    opcode = head[0] & 0x0F
+    masked = head[1] & 0x80
+    length = head[1] & 0x7F
+    if length == 126:
+        (length,) = struct.unpack(">H", await reader.readexactly(2))
+    elif length == 127:
+        (length,) = struct.unpack(">Q", await reader.readexactly(8))
+    mask = await reader.readexactly(4) if masked else b"\0\0\0\0"
+    payload = await reader.readexactly(length)
+    return opcode, bytes(b ^ mask[i % 4] for i, b in enumerate(payload)) if masked else payload
+
+
+def frame(opcode: int, payload: bytes) -> bytes:
+    length = len(payload)
+    if length < 126:
+        header = struct.pack(">BB", 0x80 | opcode, length)
+    elif length < 1 << 16:
+        header = struct.pack(">BBH", 0x80 | opcode, 126, length)
+    else:
+        header = struct.pack(">BBQ", 0x80 | opcode, 127, length)
+    return header + payload
+
+
+async def handshake(reader: asyncio.StreamReader, writer: asyncio.StreamWriter) -> bool:
+    request = (await reader.readuntil(b"\r\n\r\n")).decode(errors="ignore")
+    lines = request.split("\r\n")
+    path = lines[0].split(" ")[1] if len(lines[0].split(" ")) > 1 else ""
+    headers = {}
+    for line in lines[1:]:
+        if ":" in line:
+            name, value = line.split(":", 1)
+            headers[name.strip().lower()] = value.strip()
+    key = headers.get("sec-websocket-key")
+    if path.split("?")[0] != "/stream" or not key:
+        writer.write(b"HTTP/1.1 404 Not Found\r\nContent-Length: 0\r\n\r\n")
+        await writer.drain()
+        return False
+    accept = base64.b64encode(hashlib.sha1((key + WS_GUID).encode()).digest()).decode()
+    writer.write(
+        (
+            "HTTP/1.1 101 Switching Protocols\r\n"
+            "Upgrade: websocket\r\nConnection: Upgrade\r\n"
+            f"Sec-WebSocket-Accept: {accept}\r\n\r\n"
+        ).encode()
+    )
+    await writer.drain()
+    return True
+
+
+async def handle(reader: asyncio.StreamReader, writer: asyncio.StreamWriter) -> None:
+    peer = writer.get_extra_info("peername")
+    try:
+        if not await handshake(reader, writer):
+            return
+        log.info("stream opened by %s", peer)
+        utterances: Optional[Utterances] = None
+
+        async def send(messages: list) -> None:
+            for message in messages:
+                writer.write(frame(OP_TEXT, json.dumps(message).encode()))
+            await writer.drain()
+
+        while True:
+            opcode, payload = await read_frame(reader)
+            if opcode == OP_CLOSE:
+                break
+            if opcode == OP_PING:
+                writer.write(frame(OP_PONG, payload))
+            elif opcode == OP_BINARY and utterances:
+                await send(utterances.feed(payload))
+            elif opcode == OP_TEXT:
+                control = json.loads(payload.decode() or "{}")
+                kind = control.get("type")
+                if kind == "start":
+                    utterances = Utterances(int(control.get("sample_rate") or 16000))
+                elif kind == "flush" and utterances:
+                    await send(utterances.finalize())
+                elif kind == "stop":
+                    await send(utterances.finalize() if utterances else [])
+                    break
+        writer.write(frame(OP_CLOSE, struct.pack(">H", 1000)))
+        await writer.drain()
+        log.info("stream closed by %s", peer)
+    except (asyncio.IncompleteReadError, ConnectionError):
+        log.info("stream dropped by %s", peer)
+    finally:
+        writer.close()
+
+
+async def main(port: int) -> None:
+    server = await asyncio.start_server(handle, "0.0.0.0", port)
+    log.info("mock streaming endpoint on ws://localhost:%d/stream", port)
+    async with server:
+        await server.serve_forever()
+
+
+if __name__ == "__main__":
+    parser = argparse.ArgumentParser(description="Mock streaming transcription server.")
+    parser.add_argument("--port", type=int, default=int(os.environ.get("PORT", "5006")))
+    asyncio.run(main(parser.parse_args().port))